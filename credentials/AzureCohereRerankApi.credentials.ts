@@ -1,4 +1,4 @@
-import type { Icon, ICredentialTestRequest, ICredentialType, INodeProperties } from 'n8n-workflow';
+import type { Icon, ICredentialType, INodeProperties } from 'n8n-workflow';
 
 export class AzureCohereRerankApi implements ICredentialType {
 	name = 'azureCohereRerankApi';
@@ -10,15 +10,7 @@ export class AzureCohereRerankApi implements ICredentialType {
 		dark: 'file:../icons/azureCohere.dark.svg',
 	};
 
-	testedBy = ['azureCohereRerank'];
-
-	test: ICredentialTestRequest = {
-		request: {
-			method: 'GET',
-			url: '={{ $credentials.endpointUrl }}',
-		},
-	};
-
+	// Tested by the node's azureCohereRerankApiTest method, which sends a real probe rerank.
 	documentationUrl = 'https://docs.cohere.com/docs/cohere-on-azure/azure-ai-reranking';
 
 	properties: INodeProperties[] = [
@@ -27,7 +19,8 @@ export class AzureCohereRerankApi implements ICredentialType {
 			name: 'endpointUrl',
 			type: 'string',
 			default: '',
-			description: 'Full Azure endpoint including /v1/rerank',
+			description:
+				'Azure endpoint. Serverless, Foundry and /openai/deployments/ URLs are completed with the rerank route and api-version when missing.',
 			placeholder: 'https://<deployment>.<region>.models.ai.azure.com/v1/rerank',
 			required: true,
 		},
@@ -45,6 +38,10 @@ export class AzureCohereRerankApi implements ICredentialType {
 					name: 'Bearer Token (Authorization header)',
 					value: 'bearer',
 				},
+				{
+					name: 'Microsoft Entra ID (Client Credentials)',
+					value: 'entraId',
+				},
 			],
 		},
 		{
@@ -73,5 +70,117 @@ export class AzureCohereRerankApi implements ICredentialType {
 			},
 			required: true,
 		},
+		{
+			displayName: 'Tenant ID',
+			name: 'tenantId',
+			type: 'string',
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+				},
+			},
+			required: true,
+		},
+		{
+			displayName: 'Client ID',
+			name: 'clientId',
+			type: 'string',
+			default: '',
+			description: 'Application (client) ID of the app registration',
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+				},
+			},
+			required: true,
+		},
+		{
+			displayName: 'Client Authentication',
+			name: 'clientAuthentication',
+			type: 'options',
+			default: 'secret',
+			options: [
+				{
+					name: 'Client Secret',
+					value: 'secret',
+				},
+				{
+					name: 'Certificate',
+					value: 'certificate',
+				},
+			],
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+				},
+			},
+		},
+		{
+			displayName: 'Client Secret',
+			name: 'clientSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+					clientAuthentication: ['secret'],
+				},
+			},
+			required: true,
+		},
+		{
+			displayName: 'Certificate (PEM)',
+			name: 'certificate',
+			type: 'string',
+			typeOptions: { password: true, rows: 4 },
+			default: '',
+			placeholder: '-----BEGIN CERTIFICATE-----',
+			description: 'Public certificate uploaded to the app registration',
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+					clientAuthentication: ['certificate'],
+				},
+			},
+			required: true,
+		},
+		{
+			displayName: 'Private Key (PEM)',
+			name: 'privateKey',
+			type: 'string',
+			typeOptions: { password: true, rows: 4 },
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+					clientAuthentication: ['certificate'],
+				},
+			},
+			required: true,
+		},
+		{
+			displayName: 'Scope',
+			name: 'scope',
+			type: 'string',
+			default: 'https://cognitiveservices.azure.com/.default',
+			description:
+				'Token scope of the rerank deployment, e.g. https://ml.azure.com/.default for Azure ML managed endpoints',
+			displayOptions: {
+				show: {
+					authType: ['entraId'],
+				},
+			},
+		},
+		{
+			displayName: 'Model for Connection Test',
+			name: 'testModel',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. rerank-v3.5',
+			description:
+				'Model the credential test sends, usually the one selected in the node. Required for /v2/rerank endpoints. Leave empty for deployments that serve a single model.',
+		},
 	];
 }
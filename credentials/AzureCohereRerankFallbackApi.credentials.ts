@@ -0,0 +1,46 @@
+import type { Icon, ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class AzureCohereRerankFallbackApi implements ICredentialType {
+	name = 'azureCohereRerankFallbackApi';
+
+	displayName = 'Azure Cohere Rerank Fallback Keys API';
+
+	icon: Icon = {
+		light: 'file:../icons/azureCohere.svg',
+		dark: 'file:../icons/azureCohere.dark.svg',
+	};
+
+	// Keys for the node's fallback endpoints, stored encrypted instead of in node parameters.
+	// Tested by the node's azureCohereRerankFallbackApiTest method, which probes every endpoint.
+	documentationUrl = 'https://docs.cohere.com/docs/cohere-on-azure/azure-ai-reranking';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Header Name',
+			name: 'headerName',
+			type: 'string',
+			default: 'api-key',
+			description:
+				'Header each key is sent in. Use Authorization with "Bearer &lt;token&gt;" keys for bearer tokens.',
+		},
+		{
+			displayName: 'API Keys by Endpoint',
+			name: 'apiKeys',
+			type: 'string',
+			typeOptions: { password: true, rows: 4 },
+			default: '',
+			description:
+				'JSON object mapping each fallback endpoint URL to its key, e.g. {"https://westus.models.ai.azure.com/v1/rerank": "key"}. URLs are completed the same way as the node\'s Endpoint URL before they are matched.',
+			required: true,
+		},
+		{
+			displayName: 'Model for Connection Test',
+			name: 'testModel',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. rerank-v3.5',
+			description:
+				'Model the credential test sends to every endpoint. Required for /v2/rerank endpoints. Leave empty for deployments that serve a single model.',
+		},
+	];
+}
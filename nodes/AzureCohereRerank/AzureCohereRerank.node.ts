@@ -1,142 +1,21 @@
 import {
-	ApplicationError,
 	NodeConnectionTypes,
+	NodeError,
 	NodeOperationError,
-	type IHttpRequestOptions,
+	type IExecuteFunctions,
+	type INodeExecutionData,
 	type INodeType,
 	type INodeTypeDescription,
 	type ISupplyDataFunctions,
 	type SupplyData,
 } from 'n8n-workflow';
 
-type DocumentInput =
-	| string
-	| {
-			pageContent?: string;
-			metadata?: Record<string, unknown>;
-			[key: string]: unknown;
-	  };
-
-type RerankRequestFunction = (options: IHttpRequestOptions) => Promise<AzureRerankResponse>;
-
-interface AzureRerankOptions {
-	endpointUrl: string;
-	headers?: Record<string, string>;
-	modelName: string;
-	topN: number;
-	request: RerankRequestFunction;
-	logger?: ISupplyDataFunctions['logger'];
-}
-
-interface AzureRerankResult {
-	index: number;
-	relevance_score: number;
-	document?: unknown;
-}
-
-interface AzureRerankResponse {
-	id?: string;
-	results?: AzureRerankResult[];
-}
-
-class AzureCohereReranker {
-	constructor(private readonly options: AzureRerankOptions) {}
-
-	async compressDocuments(documents: DocumentInput[], query: string) {
-		const { endpointUrl, headers = {}, topN, modelName, request, logger } = this.options;
-
-		if (!documents || documents.length === 0) {
-			return [];
-		}
-
-		const normalizedDocuments = documents.map((doc) => {
-			if (typeof doc === 'string') return doc;
-			if (doc.pageContent) return doc.pageContent;
-			return JSON.stringify(doc);
-		});
-
-		const body = {
-			query,
-			documents: normalizedDocuments,
-			top_n: topN,
-			model: modelName,
-		};
-
-		let response: AzureRerankResponse;
-		try {
-			response = await request({
-				method: 'POST',
-				url: endpointUrl,
-				body,
-				headers: {
-					'Content-Type': 'application/json',
-					...headers,
-				},
-			});
-		} catch (error: unknown) {
-			const status =
-				(error as { statusCode?: number; status?: number })?.statusCode ??
-				(error as { status?: number })?.status ??
-				'';
-			const message = (error as { message?: string })?.message ?? 'Unknown error';
-			logger?.error?.(`Azure Cohere Rerank request failed: ${message}`);
-			throw new ApplicationError(
-				`Azure Cohere Rerank request failed${status ? ` (${status})` : ''}: ${message}`,
-			);
-		}
-
-		if (!response?.results || !Array.isArray(response.results)) {
-			throw new ApplicationError(
-				'Unexpected response shape from Azure Cohere Rerank (missing results)',
-			);
-		}
-
-		return response.results.slice(0, topN).map((result) => {
-			if (typeof result.index !== 'number') {
-				throw new ApplicationError(
-					'Unexpected response shape from Azure Cohere Rerank (missing index)',
-				);
-			}
-
-			const original = documents[result.index];
-			if (original === undefined) {
-				throw new ApplicationError(
-					`Received index ${result.index} not present in provided documents`,
-				);
-			}
-
-			const base =
-				typeof original === 'string'
-					? { pageContent: original, metadata: {} as Record<string, unknown> }
-					: {
-							...original,
-							metadata: {
-								...(original.metadata ?? {}),
-							},
-					  };
-
-			return {
-				...base,
-				metadata: {
-					...base.metadata,
-					relevance_score: result.relevance_score,
-				},
-			};
-		});
-	}
-}
-
-const logWrapper = <T extends object>(target: T, context: ISupplyDataFunctions): T =>
-	new Proxy(target, {
-		get(obj, prop, receiver) {
-			const value = Reflect.get(obj, prop, receiver);
-			if (typeof value !== 'function') return value;
-			return (...args: unknown[]) => {
-				context.logger?.debug?.(`AzureCohereRerank.${String(prop)}`);
-				return (value as (...innerArgs: unknown[]) => unknown).apply(obj, args);
-			};
-		},
-	});
+import { createReranker } from './createReranker';
+import { azureCohereRerankApiTest, azureCohereRerankFallbackApiTest } from './credentialTest';
+import { formatFieldValue, getPath } from './GenericFunctions';
+import { logWrapper } from './logWrapper';
+import { searchModels, STATIC_MODELS } from './models';
+import { rerankOptions } from './optionDescription';
 
 export class AzureCohereRerank implements INodeType {
 	description: INodeTypeDescription = {
@@ -147,22 +26,25 @@ export class AzureCohereRerank implements INodeType {
 			dark: 'file:../../icons/azureCohere.dark.svg',
 		},
 		group: ['transform'],
-		version: 1,
+		version: [1, 1.1],
+		defaultVersion: 1.1,
 		description:
 			'Use Cohere Rerank hosted on Azure AI Foundry to reorder documents by relevance to a query',
 		defaults: {
 			name: 'Azure Cohere Rerank',
 		},
 		usableAsTool: true,
-		inputs: [],
-		outputs: [NodeConnectionTypes.AiReranker],
-		outputNames: ['Reranker'],
+		// The Rerank Items action runs on main items, the default mode stays an AI reranker sub-node.
+		inputs: `={{ $parameter["mode"] === "rerankItems" ? ["${NodeConnectionTypes.Main}"] : [] }}`,
+		outputs: `={{ $parameter["mode"] === "rerankItems" ? ["${NodeConnectionTypes.Main}"] : [{ "type": "${NodeConnectionTypes.AiReranker}", "displayName": "Reranker" }] }}`,
 		credentials: [
 			{
 				name: 'azureCohereRerankApi',
 				required: true,
+				testedBy: 'azureCohereRerankApiTest',
 				displayOptions: {
 					show: {
+						backend: ['remote'],
 						authentication: ['azureCredential'],
 					},
 				},
@@ -175,6 +57,7 @@ export class AzureCohereRerank implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
+						backend: ['remote'],
 						authentication: ['httpBearer'],
 					},
 				},
@@ -186,10 +69,22 @@ export class AzureCohereRerank implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
+						backend: ['remote'],
 						authentication: ['httpHeader'],
 					},
 				},
 			},
+			{
+				// Per-endpoint keys for fallback endpoints; optional because only fallbacks use it.
+				name: 'azureCohereRerankFallbackApi',
+				required: false,
+				testedBy: 'azureCohereRerankFallbackApiTest',
+				displayOptions: {
+					show: {
+						backend: ['remote'],
+					},
+				},
+			},
 		],
 		codex: {
 			categories: ['AI'],
@@ -205,10 +100,54 @@ export class AzureCohereRerank implements INodeType {
 			},
 		},
 		properties: [
+			{
+				displayName: 'Mode',
+				name: 'mode',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Reranker Sub-Node',
+						value: 'supplyReranker',
+						description: 'Provide a reranker to vector stores, retrievers and agents',
+					},
+					{
+						name: 'Rerank Items',
+						value: 'rerankItems',
+						description: 'Reorder incoming items by relevance to a query',
+					},
+				],
+				default: 'supplyReranker',
+			},
+			{
+				displayName: 'Backend',
+				name: 'backend',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Remote Endpoint',
+						value: 'remote',
+						description: 'Rerank with a hosted Cohere-compatible rerank endpoint',
+					},
+					{
+						name: 'Local (BM25)',
+						value: 'localBm25',
+						description:
+							'Score documents in-process by keyword overlap, without credentials or network calls',
+					},
+				],
+				default: 'remote',
+			},
 			{
 				displayName: 'Authentication',
 				name: 'authentication',
 				type: 'options',
+				displayOptions: {
+					show: {
+						backend: ['remote'],
+					},
+				},
 				options: [
 					{
 						name: 'Use Azure Cohere Rerank Credential',
@@ -225,14 +164,119 @@ export class AzureCohereRerank implements INodeType {
 				],
 				default: 'httpBearer',
 			},
+			{
+				displayName: 'API Flavor',
+				name: 'apiFlavor',
+				type: 'options',
+				displayOptions: {
+					show: {
+						backend: ['remote'],
+					},
+				},
+				options: [
+					{
+						name: 'Azure AI Foundry / Azure ML (V1)',
+						value: 'azureV1',
+						description:
+							'Cohere v1 /v1/rerank schema used by Azure serverless and managed endpoints',
+					},
+					{
+						name: 'Cohere V2',
+						value: 'cohereV2',
+						description: 'Cohere v2 /v2/rerank schema on a custom deployment',
+					},
+					{
+						name: 'Cohere API',
+						value: 'cohereNative',
+						description: "Cohere's own API, defaults to https://api.cohere.com/v2/rerank",
+					},
+					{
+						name: 'Jina / Voyage Compatible',
+						value: 'generic',
+						description: 'Generic rerank APIs returning results or data with relevance scores',
+					},
+				],
+				default: 'azureV1',
+				description: 'Request and response schema spoken by the endpoint',
+			},
 			{
 				displayName: 'Endpoint URL',
 				name: 'endpointUrl',
 				type: 'string',
+				displayOptions: {
+					show: {
+						backend: ['remote'],
+					},
+				},
 				default: '',
-				description: 'Full Azure endpoint including /v1/rerank',
+				description:
+					'Rerank endpoint. Azure serverless, Foundry and /openai/deployments/ URLs are completed with the rerank route and api-version when missing. Optional for the Cohere API flavor.',
 				placeholder: 'https://<deployment>.<region>.models.ai.azure.com/v1/rerank',
 			},
+			{
+				displayName: 'Fallback Endpoints',
+				name: 'fallbackEndpoints',
+				type: 'fixedCollection',
+				displayOptions: {
+					show: {
+						backend: ['remote'],
+					},
+				},
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				placeholder: 'Add Fallback Endpoint',
+				default: {},
+				description:
+					'Endpoints tried in order when the primary endpoint times out, is throttled (429) or fails with a 5xx error, e.g. the same model deployed in another region',
+				options: [
+					{
+						displayName: 'Endpoint',
+						name: 'endpoints',
+						values: [
+							{
+								displayName: 'Endpoint URL',
+								name: 'endpointUrl',
+								type: 'string',
+								default: '',
+								placeholder: 'https://<deployment>.<region>.models.ai.azure.com/v1/rerank',
+								required: true,
+							},
+							{
+								displayName: 'Authentication',
+								name: 'authentication',
+								type: 'options',
+								options: [
+									{
+										name: 'Same as Primary',
+										value: 'primary',
+									},
+									{
+										name: 'Use Azure Cohere Rerank Credential',
+										value: 'azureCredential',
+									},
+									{
+										name: 'Use Azure Cohere Rerank Fallback Keys Credential',
+										value: 'fallbackCredential',
+									},
+									{
+										name: 'Use Existing API Key Header (httpHeaderAuth)',
+										value: 'httpHeader',
+									},
+									{
+										name: 'Use Existing Bearer Token (httpBearerAuth)',
+										value: 'httpBearer',
+									},
+								],
+								default: 'primary',
+								description:
+									'How this endpoint authenticates. A node holds one credential per type, so endpoints using the same credential type share its key. Choose Use Azure Cohere Rerank Fallback Keys Credential to give each endpoint its own key, e.g. per region.',
+							},
+						],
+					},
+				],
+			},
 			{
 				displayName: 'Model',
 				name: 'modelName',
@@ -240,20 +284,84 @@ export class AzureCohereRerank implements INodeType {
 				description:
 					'The model that should be used to rerank the documents. <a href="https://ai.azure.com/catalog/models/Cohere-rerank-v3.5" target="_blank">Learn more</a>.',
 				default: 'rerank-v3.5',
-				options: [
-					{
-						name: 'rerank-v3.5',
-						value: 'rerank-v3.5',
+				options: STATIC_MODELS.map((model) => ({ name: model, value: model })),
+				displayOptions: {
+					show: {
+						'@version': [1],
+						backend: ['remote'],
 					},
+				},
+			},
+			{
+				displayName: 'Model',
+				name: 'modelName',
+				type: 'resourceLocator',
+				description:
+					'The model or deployment used to rerank the documents. Pick one reported by the endpoint or enter its ID. <a href="https://ai.azure.com/catalog/models/Cohere-rerank-v3.5" target="_blank">Learn more</a>.',
+				default: { mode: 'list', value: 'rerank-v3.5' },
+				modes: [
 					{
-						name: 'rerank-english-v3.0',
-						value: 'rerank-english-v3.0',
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchModels',
+							searchable: true,
+						},
 					},
 					{
-						name: 'rerank-multilingual-v3.0',
-						value: 'rerank-multilingual-v3.0',
+						displayName: 'ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. rerank-v3.5',
 					},
 				],
+				displayOptions: {
+					hide: {
+						'@version': [1],
+						backend: ['localBm25'],
+					},
+				},
+			},
+			{
+				displayName: 'Query',
+				name: 'query',
+				type: 'string',
+				default: '',
+				required: true,
+				description:
+					'The query the items are ranked against. All items are ranked together, so it must evaluate to the same query for every item.',
+				displayOptions: {
+					show: {
+						mode: ['rerankItems'],
+					},
+				},
+			},
+			{
+				displayName: 'Document Field',
+				name: 'documentField',
+				type: 'string',
+				default: 'text',
+				required: true,
+				description: 'Path of the item field holding the text to rank, dot notation supported',
+				placeholder: 'e.g. content.body',
+				displayOptions: {
+					show: {
+						mode: ['rerankItems'],
+					},
+				},
+			},
+			{
+				displayName: 'Score Field',
+				name: 'scoreField',
+				type: 'string',
+				default: 'relevance_score',
+				description: 'Name of the field the relevance score is written to on each output item',
+				displayOptions: {
+					show: {
+						mode: ['rerankItems'],
+					},
+				},
 			},
 			{
 				displayName: 'Top N',
@@ -262,121 +370,100 @@ export class AzureCohereRerank implements INodeType {
 				description: 'The maximum number of documents to return after reranking',
 				default: 3,
 			},
+			rerankOptions,
 		],
 	};
 
-	async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
-		this.logger.debug('Supply data for Azure Cohere Rerank');
-		const authentication = this.getNodeParameter('authentication', itemIndex, 'httpBearer') as string;
-		const endpointUrlParam = this.getNodeParameter('endpointUrl', itemIndex, '') as string;
-		const modelName = this.getNodeParameter('modelName', itemIndex, 'rerank-v3.5') as string;
-		const topN = this.getNodeParameter('topN', itemIndex, 3) as number;
-
-		let endpointUrl = endpointUrlParam;
-		const headers: Record<string, string> = {};
-		let request: RerankRequestFunction;
-
-		const assertEndpoint = () => {
-			if (!endpointUrl) {
-				throw new NodeOperationError(this.getNode(), 'Endpoint URL is required', {
-					itemIndex,
-				});
-			}
-		};
+	methods = {
+		credentialTest: {
+			azureCohereRerankApiTest,
+			azureCohereRerankFallbackApiTest,
+		},
+		listSearch: {
+			searchModels,
+		},
+	};
 
-		if (authentication === 'azureCredential') {
-			const credentials = await this.getCredentials<{
-				endpointUrl: string;
-				authType: 'apiKey' | 'bearer';
-				apiKey?: string;
-				bearerToken?: string;
-			}>('azureCohereRerankApi');
-			endpointUrl = endpointUrl || credentials.endpointUrl;
-			assertEndpoint();
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		if (items.length === 0) {
+			return [[]];
+		}
 
-			if (credentials.authType === 'apiKey') {
-				if (!credentials.apiKey) {
+		try {
+			// An expression may return several queries, which are ranked and aggregated together.
+			const query = this.getNodeParameter('query', 0, '') as string | string[];
+			for (let itemIndex = 1; itemIndex < items.length; itemIndex++) {
+				const itemQuery = this.getNodeParameter('query', itemIndex, '') as string | string[];
+				if (JSON.stringify(itemQuery) !== JSON.stringify(query)) {
 					throw new NodeOperationError(
 						this.getNode(),
-						'API key is required for Azure Cohere Rerank authentication',
-						{ itemIndex },
+						`The query for item ${itemIndex} differs from the query for the first item`,
+						{
+							itemIndex,
+							description:
+								'Rerank Items ranks all items against one query. Use an expression that is the same for every item, e.g. one that reads the query from another node, or run the node once per query.',
+						},
 					);
 				}
-				headers['api-key'] = credentials.apiKey as string;
-			} else {
-				if (!credentials.bearerToken) {
+			}
+			const documentField = this.getNodeParameter('documentField', 0, 'text') as string;
+			const scoreField = this.getNodeParameter('scoreField', 0, 'relevance_score') as string;
+
+			const documents = items.map((item, index) => {
+				const value = getPath(item.json, documentField);
+				if (value === undefined || value === null) {
 					throw new NodeOperationError(
 						this.getNode(),
-						'Bearer token is required for Azure Cohere Rerank authentication',
-						{ itemIndex },
+						`Item is missing the document field "${documentField}"`,
+						{ itemIndex: index },
 					);
 				}
-				headers.Authorization = `Bearer ${credentials.bearerToken}`;
-			}
-
-			request = (options) =>
-				this.helpers.httpRequest({
-					...options,
-					url: endpointUrl,
-					headers: {
-						'Content-Type': 'application/json',
-						...headers,
-						...(options.headers ?? {}),
-					},
-				});
-		} else if (authentication === 'httpBearer') {
-			assertEndpoint();
-			request = (options) =>
-				this.helpers.httpRequestWithAuthentication.call(this, 'httpBearerAuth', {
-					...options,
-					url: endpointUrl,
-					headers: {
-						'Content-Type': 'application/json',
-						...(options.headers ?? {}),
-					},
-				});
-		} else if (authentication === 'httpHeader') {
-			const credentials = await this.getCredentials<{ name?: string; value?: string }>(
-				'httpHeaderAuth',
-			);
-			assertEndpoint();
-
-			const headerName = credentials?.name || 'api-key';
-			const headerValue = credentials?.value;
-			if (!headerValue) {
-				throw new NodeOperationError(
-					this.getNode(),
-					'API key value is required in httpHeaderAuth credentials',
-					{ itemIndex },
-				);
-			}
+				return { pageContent: formatFieldValue(value), metadata: item.json };
+			});
 
-			headers[headerName] = headerValue as string;
+			const reranker = await createReranker.call(this, 0);
+			const ranked = await reranker.rerank(documents, query);
 
-			request = (options) =>
-				this.helpers.httpRequest({
-					...options,
-					url: endpointUrl,
-					headers: {
-						'Content-Type': 'application/json',
-						...headers,
-						...(options.headers ?? {}),
+			return [
+				ranked.map((result, position) => ({
+					json: {
+						...items[result.index].json,
+						...(result.skipReason !== undefined
+							? { rerank_skipped: true, rerank_skip_reason: result.skipReason }
+							: {
+									[scoreField]: result.relevance_score,
+									raw_score: result.rawScore ?? result.relevance_score,
+								}),
+						rerank_rank: position + 1,
+						original_index: result.index,
+						...(result.fallbackReason !== undefined
+							? { rerank_fallback: true, rerank_fallback_reason: result.fallbackReason }
+							: {}),
+						...(result.fusedScore !== undefined
+							? { first_stage_score: result.firstStageScore, fused_score: result.fusedScore }
+							: {}),
+						...(result.matchedQuery !== undefined ? { matched_query: result.matchedQuery } : {}),
 					},
-				});
-		} else {
-			throw new NodeOperationError(this.getNode(), 'Unsupported authentication mode', {
-				itemIndex,
-			});
+					pairedItem: { item: result.index },
+				})),
+			];
+		} catch (error) {
+			// Failures of the rerank call itself concern every item, not one of them.
+			const itemIndex =
+				error instanceof NodeError ? (error.context.itemIndex as number | undefined) : undefined;
+			if (this.continueOnFail()) {
+				const pairedItem =
+					itemIndex !== undefined ? { item: itemIndex } : items.map((_, item) => ({ item }));
+				return [[{ json: { error: (error as Error).message }, pairedItem }]];
+			}
+			throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
 		}
+	}
 
-		const reranker = new AzureCohereReranker({
-			endpointUrl,
-			headers,
-			modelName,
-			topN,
-			request,
-			logger: this.logger,
-		});
+	async supplyData(this: ISupplyDataFunctions, itemIndex: number): Promise<SupplyData> {
+		this.logger.debug('Supply data for Azure Cohere Rerank');
+		const reranker = await createReranker.call(this, itemIndex);
 
 		return {
 			response: logWrapper(reranker, this),
@@ -0,0 +1,74 @@
+export type HttpErrorLike = {
+	statusCode?: number;
+	status?: number;
+	httpCode?: string;
+	code?: string;
+	message?: string;
+	headers?: Record<string, unknown>;
+	response?: { status?: number; headers?: Record<string, unknown> };
+	cause?: { code?: string };
+};
+
+export const getErrorStatus = (error: unknown): number | undefined => {
+	const candidate = error as HttpErrorLike | undefined;
+	const status =
+		candidate?.statusCode ??
+		candidate?.status ??
+		candidate?.response?.status ??
+		(candidate?.httpCode ? Number(candidate.httpCode) : undefined);
+	return typeof status === 'number' && !Number.isNaN(status) ? status : undefined;
+};
+
+export const getErrorHeader = (error: unknown, name: string): string | undefined => {
+	const candidate = error as HttpErrorLike | undefined;
+	const headers = candidate?.response?.headers ?? candidate?.headers ?? {};
+	const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+	const value = key ? headers[key] : undefined;
+	return value === undefined || value === null ? undefined : String(value);
+};
+
+/** Network error code such as `ENOTFOUND`, also when wrapped by the legacy request helper. */
+export const getErrorCode = (error: unknown): string | undefined => {
+	const candidate = error as HttpErrorLike | undefined;
+	return candidate?.code ?? candidate?.cause?.code;
+};
+
+/** Client-side timeouts surface as `ECONNABORTED` from axios or `ETIMEDOUT` from the socket. */
+export const isTimeoutError = (error: unknown) => {
+	const code = getErrorCode(error);
+	if (code === 'ETIMEDOUT') return true;
+	return code === 'ECONNABORTED' && /timeout/i.test((error as HttpErrorLike)?.message ?? '');
+};
+
+export const getPath = (source: unknown, path: string): unknown =>
+	path.split('.').reduce<unknown>((value, key) => {
+		if (value === null || typeof value !== 'object') return undefined;
+		return (value as Record<string, unknown>)[key];
+	}, source);
+
+export const formatFieldValue = (value: unknown) => {
+	if (typeof value === 'string') return value;
+	if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+	return JSON.stringify(value);
+};
+
+export const mapWithConcurrency = async <T, R>(
+	items: T[],
+	concurrency: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+	const results = new Array<R>(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const current = next++;
+			results[current] = await fn(items[current], current);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker),
+	);
+	return results;
+};
@@ -0,0 +1,249 @@
+import {
+	ApplicationError,
+	NodeApiError,
+	NodeOperationError,
+	type IExecuteFunctions,
+	type IHttpRequestOptions,
+	type ILoadOptionsFunctions,
+	type ISupplyDataFunctions,
+	type JsonObject,
+	jsonParse,
+} from 'n8n-workflow';
+
+import { normalizeEndpointUrl } from './endpointUrl';
+import { getEntraIdAccessToken, getTokenErrorMessage, type EntraIdCredentials } from './entraId';
+import { getErrorStatus } from './GenericFunctions';
+import type { RerankProvider } from './providers';
+import type { RerankRequestFunction } from './reranker';
+
+export type NodeContext = IExecuteFunctions | ISupplyDataFunctions | ILoadOptionsFunctions;
+
+export interface AuthenticatedRequest {
+	endpointUrl: string;
+	headers: Record<string, string>;
+	request: RerankRequestFunction;
+}
+
+const FALLBACK_CREDENTIAL_NAME = 'Azure Cohere Rerank Fallback Keys';
+
+/** Parses API Keys by Endpoint of the fallback keys credential into URL and key pairs. */
+export const parseEndpointApiKeys = (apiKeys: string | undefined): Array<[string, string]> => {
+	const invalid = `API Keys by Endpoint in the ${FALLBACK_CREDENTIAL_NAME} credential must be a JSON object mapping endpoint URLs to keys`;
+	const keys = jsonParse<unknown>(apiKeys || '{}', { errorMessage: invalid });
+	if (typeof keys !== 'object' || keys === null || Array.isArray(keys)) {
+		throw new ApplicationError(invalid);
+	}
+
+	return Object.entries(keys).map(([url, key]) => {
+		if (typeof key !== 'string' || !key) {
+			throw new ApplicationError(
+				`The key for ${url} in the ${FALLBACK_CREDENTIAL_NAME} credential must be a non-empty string`,
+			);
+		}
+		return [url, key];
+	});
+};
+
+/**
+ * Returns the key stored for `endpointUrl` in the fallback keys credential. Stored URLs are
+ * normalized like the endpoint's own, so either form of an Azure URL matches.
+ */
+const findEndpointKey = (
+	apiKeys: string | undefined,
+	endpointUrl: string,
+	rerankPath?: string,
+): string => {
+	const match = parseEndpointApiKeys(apiKeys).find(
+		([url]) => normalizeEndpointUrl(url, rerankPath) === endpointUrl,
+	);
+	if (!match) {
+		throw new ApplicationError(
+			`No key for ${endpointUrl} in the ${FALLBACK_CREDENTIAL_NAME} credential`,
+		);
+	}
+	return match[1];
+};
+
+/**
+ * Resolves the endpoint and returns a request function authenticated with the selected
+ * authentication mode. Requests default to the rerank endpoint unless they pass their own URL.
+ */
+export async function createAuthenticatedRequest(
+	this: NodeContext,
+	{
+		authentication,
+		endpointUrl: endpointUrlParam,
+		provider,
+		itemIndex,
+	}: {
+		authentication: string;
+		endpointUrl: string;
+		provider: RerankProvider;
+		itemIndex?: number;
+	},
+): Promise<AuthenticatedRequest> {
+	let endpointUrl = endpointUrlParam;
+	const headers: Record<string, string> = {};
+	let request: RerankRequestFunction;
+
+	const sendWithHeaders: RerankRequestFunction = (options) =>
+		this.helpers.httpRequest({
+			...options,
+			url: options.url || endpointUrl,
+			headers: {
+				'Content-Type': 'application/json',
+				...headers,
+				...(options.headers ?? {}),
+			},
+		});
+
+	const assertEndpoint = () => {
+		endpointUrl = endpointUrl || provider.defaultEndpointUrl || '';
+		if (!endpointUrl) {
+			throw new NodeOperationError(this.getNode(), 'Endpoint URL is required', {
+				itemIndex,
+			});
+		}
+		try {
+			endpointUrl = normalizeEndpointUrl(endpointUrl, provider.rerankPath);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+		}
+	};
+
+	if (authentication === 'azureCredential') {
+		const credentials = await this.getCredentials<
+			{
+				endpointUrl: string;
+				authType: 'apiKey' | 'bearer' | 'entraId';
+				apiKey?: string;
+				bearerToken?: string;
+			} & EntraIdCredentials
+		>('azureCohereRerankApi');
+		endpointUrl = endpointUrl || credentials.endpointUrl;
+		assertEndpoint();
+
+		const sendRequest = (options: IHttpRequestOptions, authHeaders: Record<string, string>) =>
+			this.helpers.httpRequest({
+				...options,
+				url: options.url || endpointUrl,
+				headers: {
+					'Content-Type': 'application/json',
+					...authHeaders,
+					...(options.headers ?? {}),
+				},
+			});
+
+		if (credentials.authType === 'entraId') {
+			const acquireToken = async (forceRefresh: boolean) => {
+				try {
+					return await getEntraIdAccessToken(
+						credentials,
+						async (options) => await this.helpers.httpRequest(options),
+						{ forceRefresh },
+					);
+				} catch (error) {
+					// Missing credential fields, as opposed to the token endpoint refusing the request.
+					if (error instanceof ApplicationError) {
+						throw new NodeOperationError(this.getNode(), error, { itemIndex });
+					}
+					throw new NodeApiError(this.getNode(), error as JsonObject, {
+						message: getTokenErrorMessage(error),
+						itemIndex,
+					});
+				}
+			};
+			const sendWithToken = async (options: IHttpRequestOptions, forceRefresh: boolean) =>
+				await sendRequest(options, {
+					Authorization: `Bearer ${await acquireToken(forceRefresh)}`,
+				});
+
+			request = async (options) => {
+				try {
+					return await sendWithToken(options, false);
+				} catch (error) {
+					// A revoked or rotated token is rejected before it expires; refresh once and retry.
+					// Other errors are rethrown as is because the reranker's retry policy needs their
+					// status and headers; it wraps them in a node error once it gives up.
+					// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+					if (getErrorStatus(error) !== 401) throw error;
+					this.logger?.debug?.('Azure Cohere Rerank refreshing Entra ID token after 401');
+					return await sendWithToken(options, true);
+				}
+			};
+		} else {
+			if (credentials.authType === 'apiKey') {
+				if (!credentials.apiKey) {
+					throw new NodeOperationError(
+						this.getNode(),
+						'API key is required for Azure Cohere Rerank authentication',
+						{ itemIndex },
+					);
+				}
+				headers['api-key'] = credentials.apiKey as string;
+			} else {
+				if (!credentials.bearerToken) {
+					throw new NodeOperationError(
+						this.getNode(),
+						'Bearer token is required for Azure Cohere Rerank authentication',
+						{ itemIndex },
+					);
+				}
+				headers.Authorization = `Bearer ${credentials.bearerToken}`;
+			}
+
+			request = (options) => sendRequest(options, headers);
+		}
+	} else if (authentication === 'httpBearer') {
+		assertEndpoint();
+		request = (options) =>
+			this.helpers.httpRequestWithAuthentication.call(this, 'httpBearerAuth', {
+				...options,
+				url: options.url || endpointUrl,
+				headers: {
+					'Content-Type': 'application/json',
+					...(options.headers ?? {}),
+				},
+			});
+	} else if (authentication === 'httpHeader') {
+		const credentials = await this.getCredentials<{ name?: string; value?: string }>(
+			'httpHeaderAuth',
+		);
+		assertEndpoint();
+
+		const headerName = credentials?.name || 'api-key';
+		const headerValue = credentials?.value;
+		if (!headerValue) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'API key value is required in httpHeaderAuth credentials',
+				{ itemIndex },
+			);
+		}
+
+		headers[headerName] = headerValue as string;
+		request = sendWithHeaders;
+	} else if (authentication === 'fallbackCredential') {
+		const credentials = await this.getCredentials<{ headerName?: string; apiKeys?: string }>(
+			'azureCohereRerankFallbackApi',
+		);
+		assertEndpoint();
+
+		try {
+			headers[credentials.headerName || 'api-key'] = findEndpointKey(
+				credentials.apiKeys,
+				endpointUrl,
+				provider.rerankPath,
+			);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+		}
+		request = sendWithHeaders;
+	} else {
+		throw new NodeOperationError(this.getNode(), 'Unsupported authentication mode', {
+			itemIndex,
+		});
+	}
+
+	return { endpointUrl, headers, request };
+}
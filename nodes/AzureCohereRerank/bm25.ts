@@ -0,0 +1,46 @@
+import type { RerankResult } from './providers';
+
+const K1 = 1.2;
+const B = 0.75;
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Scores documents against the query with Okapi BM25, using the documents themselves as the
+ * corpus. Scores are divided by the query's upper bound (every term matching with unlimited
+ * frequency), so they fall in 0–1 and stay comparable across queries for thresholds.
+ * Returns every document, most relevant first.
+ */
+export const rankWithBm25 = (query: string, documents: string[]): RerankResult[] => {
+	const queryTerms = Array.from(new Set(tokenize(query)));
+	const documentTerms = documents.map(tokenize);
+	const averageLength =
+		documentTerms.reduce((total, terms) => total + terms.length, 0) /
+		Math.max(1, documentTerms.length);
+
+	const frequencies = documentTerms.map((terms) => {
+		const counts = new Map<string, number>();
+		for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+		return counts;
+	});
+
+	const idf = new Map<string, number>();
+	for (const term of queryTerms) {
+		const containing = frequencies.filter((counts) => counts.has(term)).length;
+		idf.set(term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)));
+	}
+	const maxScore = queryTerms.reduce((total, term) => total + (idf.get(term) ?? 0) * (K1 + 1), 0);
+
+	return frequencies
+		.map((counts, index) => {
+			const lengthRatio = averageLength > 0 ? documentTerms[index].length / averageLength : 0;
+			let score = 0;
+			for (const term of queryTerms) {
+				const tf = counts.get(term) ?? 0;
+				if (tf === 0) continue;
+				score += ((idf.get(term) ?? 0) * tf * (K1 + 1)) / (tf + K1 * (1 - B + B * lengthRatio));
+			}
+			return { index, relevance_score: maxScore > 0 ? Math.min(1, score / maxScore) : 0 };
+		})
+		.sort((a, b) => b.relevance_score - a.relevance_score || a.index - b.index);
+};
@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+
+import type { RerankResult } from './providers';
+
+export interface CachedRerank {
+	results: Array<RerankResult & { chunkSpan?: { start: number; end: number } }>;
+	expiresAt: number;
+}
+
+/** Storage backend for cached rerank results. Implementations decide how entries are evicted. */
+export interface RerankCacheStore {
+	get(key: string): CachedRerank | undefined;
+	set(key: string, entry: CachedRerank): void;
+}
+
+export interface RerankCacheOptions {
+	ttlMs: number;
+	store: RerankCacheStore;
+}
+
+export const DEFAULT_CACHE_TTL_SECONDS = 300;
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Least-recently-used store: `Map` keeps insertion order, so re-inserting on read moves an
+ * entry to the end and the first key is always the eviction candidate.
+ */
+export class MemoryCacheStore implements RerankCacheStore {
+	private readonly entries = new Map<string, CachedRerank>();
+
+	private readonly maxEntries: number;
+
+	constructor(maxEntries = DEFAULT_CACHE_MAX_ENTRIES) {
+		this.maxEntries = Math.max(1, maxEntries);
+	}
+
+	get(key: string) {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		if (entry.expiresAt <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	set(key: string, entry: CachedRerank) {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.evict();
+	}
+
+	private evict() {
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+}
+
+/**
+ * Keeps entries in the workflow static data so they survive worker restarts and are shared by
+ * every worker running the workflow. Static data is persisted by n8n after production runs.
+ */
+export class StaticDataCacheStore implements RerankCacheStore {
+	constructor(
+		private readonly staticData: IDataObject,
+		private readonly maxEntries = DEFAULT_CACHE_MAX_ENTRIES,
+	) {}
+
+	private get entries() {
+		this.staticData.rerankCache ??= {};
+		return this.staticData.rerankCache as Record<string, CachedRerank>;
+	}
+
+	get(key: string) {
+		const entry = this.entries[key];
+		if (!entry) return undefined;
+
+		if (entry.expiresAt <= Date.now()) {
+			delete this.entries[key];
+			return undefined;
+		}
+		return entry;
+	}
+
+	set(key: string, entry: CachedRerank) {
+		const entries = this.entries;
+		delete entries[key];
+		entries[key] = entry;
+
+		const now = Date.now();
+		const keys = Object.keys(entries).filter((existing) => {
+			if (entries[existing].expiresAt > now) return true;
+			delete entries[existing];
+			return false;
+		});
+		for (const stale of keys.slice(0, Math.max(0, keys.length - this.maxEntries))) {
+			delete entries[stale];
+		}
+	}
+}
+
+const memoryCacheStores = new Map<number, MemoryCacheStore>();
+
+/**
+ * Returns the worker's LRU for a max entries setting. Nodes with the same setting share one
+ * store; a node with another setting gets its own, so it cannot resize or evict theirs.
+ */
+export const getMemoryCacheStore = (maxEntries = DEFAULT_CACHE_MAX_ENTRIES) => {
+	let store = memoryCacheStores.get(maxEntries);
+	if (!store) {
+		store = new MemoryCacheStore(maxEntries);
+		memoryCacheStores.set(maxEntries, store);
+	}
+	return store;
+};
+
+/** Hashes everything that influences the scores, so only identical requests share an entry. */
+export const getCacheKey = (parts: {
+	endpointUrl: string;
+	modelName: string;
+	query: string;
+	documents: string[];
+	settings: unknown;
+}) => {
+	const documentsHash = createHash('sha256');
+	for (const document of parts.documents) {
+		documentsHash.update(createHash('sha256').update(document).digest('hex'));
+	}
+
+	return createHash('sha256')
+		.update(
+			JSON.stringify([
+				parts.endpointUrl,
+				parts.modelName,
+				parts.query,
+				documentsHash.digest('hex'),
+				parts.settings,
+			]),
+		)
+		.digest('hex');
+};
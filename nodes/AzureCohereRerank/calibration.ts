@@ -0,0 +1,99 @@
+import { ApplicationError, jsonParse } from 'n8n-workflow';
+
+export type CalibrationMethod = 'minMax' | 'softmax' | 'curve';
+
+/** `[raw score, calibrated score]` points, interpolated linearly and sorted by raw score. */
+export type CalibrationCurve = Array<[number, number]>;
+
+export interface CalibrationSettings {
+	method: CalibrationMethod;
+	/** Softmax temperature; lower values sharpen the gap between the best documents. */
+	temperature: number;
+	/** Required for the `curve` method. */
+	curve?: CalibrationCurve;
+}
+
+// Rerank scores mostly lie between 0 and 1, where a temperature of 1 yields near-uniform output.
+export const DEFAULT_SOFTMAX_TEMPERATURE = 0.1;
+
+/** Key of the curve used for models without their own entry. */
+export const DEFAULT_CURVE_KEY = '*';
+
+const isPoint = (point: unknown): point is [number, number] =>
+	Array.isArray(point) &&
+	point.length === 2 &&
+	point.every((value) => typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Parses `{ "<model>": [[raw, calibrated], ...], "*": [...] }`. Throws with the offending model
+ * so users can fix the JSON.
+ */
+export const parseCalibrationCurves = (value: unknown): Record<string, CalibrationCurve> => {
+	const parsed =
+		typeof value === 'string'
+			? jsonParse<unknown>(value, {
+					errorMessage: 'Calibration curves are not valid JSON',
+				})
+			: value;
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new ApplicationError(
+			'Calibration curves must be an object mapping model names to [raw, calibrated] points',
+		);
+	}
+
+	const curves: Record<string, CalibrationCurve> = {};
+	for (const [model, points] of Object.entries(parsed)) {
+		if (!Array.isArray(points) || points.length < 2 || !points.every(isPoint)) {
+			throw new ApplicationError(
+				`Calibration curve for "${model}" must list at least two [raw, calibrated] number pairs`,
+			);
+		}
+		const sorted = [...points].sort((a, b) => a[0] - b[0]);
+		// A decreasing curve would reorder documents after they have been ranked.
+		const decreasing = sorted.findIndex(
+			(point, position) => position > 0 && point[1] < sorted[position - 1][1],
+		);
+		if (decreasing !== -1) {
+			throw new ApplicationError(
+				`Calibration curve for "${model}" must not decrease, but ${JSON.stringify(sorted[decreasing])} is below ${JSON.stringify(sorted[decreasing - 1])}`,
+			);
+		}
+		curves[model] = sorted;
+	}
+	return curves;
+};
+
+const interpolate = (curve: CalibrationCurve, score: number) => {
+	if (score <= curve[0][0]) return curve[0][1];
+	for (let position = 1; position < curve.length; position++) {
+		const [x1, y1] = curve[position];
+		if (score <= x1) {
+			const [x0, y0] = curve[position - 1];
+			return x1 === x0 ? y1 : y0 + ((score - x0) / (x1 - x0)) * (y1 - y0);
+		}
+	}
+	return curve[curve.length - 1][1];
+};
+
+/** Returns one calibrated score per input score, in the same order. */
+export const calibrateScores = (scores: number[], settings: CalibrationSettings): number[] => {
+	if (scores.length === 0) return [];
+
+	if (settings.method === 'curve') {
+		const { curve } = settings;
+		return curve ? scores.map((score) => interpolate(curve, score)) : scores;
+	}
+
+	const max = Math.max(...scores);
+	if (settings.method === 'softmax') {
+		const temperature = settings.temperature > 0 ? settings.temperature : 1;
+		const weights = scores.map((score) => Math.exp((score - max) / temperature));
+		const total = weights.reduce((sum, weight) => sum + weight, 0);
+		return weights.map((weight) => weight / total);
+	}
+
+	// A single document, or all tied, is as relevant as the call gets.
+	const min = Math.min(...scores);
+	const range = max - min;
+	return scores.map((score) => (range > 0 ? (score - min) / range : 1));
+};
@@ -0,0 +1,26 @@
+export interface ChunkSpan {
+	start: number;
+	end: number;
+}
+
+/**
+ * Splits text into overlapping windows of at most `maxTokens` tokens, approximating tokens by
+ * whitespace-separated words. Spans are character offsets into the original text.
+ */
+export const splitIntoChunks = (text: string, maxTokens: number, overlap: number) => {
+	const words = Array.from(text.matchAll(/\S+/g));
+	if (words.length <= maxTokens) {
+		return [{ text, start: 0, end: text.length }];
+	}
+
+	const step = Math.max(1, maxTokens - Math.max(0, overlap));
+	const chunks: Array<{ text: string } & ChunkSpan> = [];
+	for (let first = 0; first < words.length; first += step) {
+		const last = Math.min(first + maxTokens, words.length) - 1;
+		const start = words[first].index ?? 0;
+		const end = (words[last].index ?? 0) + words[last][0].length;
+		chunks.push({ text: text.slice(start, end), start, end });
+		if (last === words.length - 1) break;
+	}
+	return chunks;
+};
@@ -0,0 +1,352 @@
+import {
+	NodeOperationError,
+	type IDataObject,
+	type IExecuteFunctions,
+	type INodeParameterResourceLocator,
+	type ISupplyDataFunctions,
+} from 'n8n-workflow';
+
+import { createAuthenticatedRequest } from './authentication';
+import {
+	DEFAULT_CACHE_MAX_ENTRIES,
+	DEFAULT_CACHE_TTL_SECONDS,
+	getMemoryCacheStore,
+	StaticDataCacheStore,
+	type RerankCacheOptions,
+} from './cache';
+import {
+	DEFAULT_CURVE_KEY,
+	DEFAULT_SOFTMAX_TEMPERATURE,
+	parseCalibrationCurves,
+	type CalibrationCurve,
+	type CalibrationMethod,
+	type CalibrationSettings,
+} from './calibration';
+import { DEFAULT_DUPLICATE_THRESHOLD, DEFAULT_MMR_LAMBDA } from './diversity';
+import {
+	DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS,
+	DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+} from './failover';
+import { DEFAULT_RERANK_WEIGHT, DEFAULT_RRF_K, type FusionMethod } from './fusion';
+import type { InputLimitAction } from './inputLimits';
+import { rerankProviders, type ApiFlavor } from './providers';
+import {
+	AzureCohereReranker,
+	DEFAULT_TIMEOUT_MS,
+	type RerankBackend,
+	type RerankEndpoint,
+} from './reranker';
+import { DEFAULT_RETRY_POLICY } from './retry';
+import {
+	escapePlaceholders,
+	getPlaceholders,
+	QUERY_PLACEHOLDER,
+	restorePlaceholders,
+} from './templates';
+
+const TEMPLATE_OPTIONS = ['queryTemplate', 'documentTemplate'];
+
+/**
+ * Reads the Options collection once, with expressions unresolved, and evaluates each entry.
+ * In expression mode n8n would resolve a template's own placeholders to nothing, so they are
+ * hidden while the rest of a template expression is evaluated.
+ */
+function getOptions(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	itemIndex: number,
+): IDataObject {
+	const raw = (this.getNodeParameter('options', itemIndex, {}, { rawExpressions: true }) ??
+		{}) as IDataObject;
+
+	return Object.fromEntries(
+		Object.entries(raw).map(([name, value]) => {
+			if (typeof value !== 'string' || !value.startsWith('=')) return [name, value];
+			if (!TEMPLATE_OPTIONS.includes(name)) {
+				return [name, this.evaluateExpression(value.slice(1), itemIndex)];
+			}
+			const evaluated = this.evaluateExpression(escapePlaceholders(value.slice(1)), itemIndex);
+			return [name, restorePlaceholders(String(evaluated ?? ''))];
+		}),
+	);
+}
+
+function createCacheOptions(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	options: {
+		cacheTtl?: number;
+		cacheMaxEntries?: number;
+		cacheStore?: 'memory' | 'workflowStaticData';
+	},
+): RerankCacheOptions {
+	const maxEntries = options.cacheMaxEntries ?? DEFAULT_CACHE_MAX_ENTRIES;
+	const ttlMs = (options.cacheTtl ?? DEFAULT_CACHE_TTL_SECONDS) * 1000;
+
+	if (options.cacheStore === 'workflowStaticData') {
+		return {
+			ttlMs,
+			store: new StaticDataCacheStore(this.getWorkflowStaticData('node'), maxEntries),
+		};
+	}
+
+	return { ttlMs, store: getMemoryCacheStore(maxEntries) };
+}
+
+/**
+ * Builds a reranker from the node parameters and the selected authentication mode. Shared by
+ * the AI reranker sub-node and the Rerank Items action so both authenticate identically.
+ */
+export async function createReranker(
+	this: IExecuteFunctions | ISupplyDataFunctions,
+	itemIndex: number,
+): Promise<AzureCohereReranker> {
+	const authentication = this.getNodeParameter('authentication', itemIndex, 'httpBearer') as string;
+	const endpointUrlParam = this.getNodeParameter('endpointUrl', itemIndex, '') as string;
+	// Version 1 stores the model as a plain string, later versions as a resource locator.
+	const modelParameter = this.getNodeParameter('modelName', itemIndex, 'rerank-v3.5') as
+		| string
+		| INodeParameterResourceLocator;
+	const modelName =
+		typeof modelParameter === 'object' ? String(modelParameter.value) : modelParameter;
+	const topN = this.getNodeParameter('topN', itemIndex, 3) as number;
+	const options = getOptions.call(this, itemIndex) as {
+		batchSize?: number;
+		maxConcurrency?: number;
+		maxAttempts?: number;
+		retryBaseDelay?: number;
+		retryJitter?: boolean;
+		minRelevanceScore?: number;
+		thresholdMode?: 'absolute' | 'relativeToTop';
+		thresholdFallback?: 'empty' | 'bestDocument';
+		rankFields?: string;
+		queryTemplate?: string;
+		documentTemplate?: string;
+		maxTokensPerDocument?: number;
+		chunkOverlap?: number;
+		chunkAggregation?: 'max' | 'meanTopK';
+		chunkTopK?: number;
+		cacheResults?: boolean;
+		cacheTtl?: number;
+		cacheMaxEntries?: number;
+		cacheStore?: 'memory' | 'workflowStaticData';
+		onError?: 'throw' | 'passthroughTopN' | 'passthroughAll' | 'localBm25';
+		scoreFusion?: 'none' | FusionMethod;
+		firstStageScoreKey?: string;
+		rerankWeight?: number;
+		rrfK?: number;
+		removeDuplicates?: boolean;
+		duplicateThreshold?: number;
+		diversify?: boolean;
+		mmrLambda?: number;
+		queryDelimiter?: string;
+		additionalQueries?: string | string[];
+		queryAggregation?: 'max' | 'mean' | 'rrf';
+		circuitBreakerThreshold?: number;
+		circuitBreakerCooldown?: number;
+		timeout?: number;
+		scoreCalibration?: 'none' | CalibrationMethod;
+		calibrationCurves?: string | IDataObject;
+		softmaxTemperature?: number;
+		requestsPerMinute?: number;
+		maxConcurrentRequests?: number;
+		maxDocuments?: number;
+		maxDocumentsAction?: 'dropTail' | 'fail';
+		maxDocumentCharacters?: number;
+		maxDocumentCharactersAction?: Exclude<InputLimitAction, 'dropTail'>;
+		maxPayloadKb?: number;
+		maxPayloadAction?: Exclude<InputLimitAction, 'dropDocument'>;
+	};
+	const apiFlavor =
+		(this.getNodeParameter('apiFlavor', itemIndex, 'azureV1') as ApiFlavor) || 'azureV1';
+	const provider = rerankProviders[apiFlavor];
+	if (!provider) {
+		throw new NodeOperationError(this.getNode(), `Unsupported API flavor "${apiFlavor}"`, {
+			itemIndex,
+		});
+	}
+
+	const backend =
+		(this.getNodeParameter('backend', itemIndex, 'remote') as RerankBackend) || 'remote';
+
+	const queryTemplate = options.queryTemplate ?? '';
+	if (queryTemplate && !getPlaceholders(queryTemplate).includes(QUERY_PLACEHOLDER)) {
+		throw new NodeOperationError(this.getNode(), 'Query Template has no {{query}} placeholder', {
+			itemIndex,
+			description: 'Add {{query}} where the incoming query should go',
+		});
+	}
+
+	const rankFields = (options.rankFields ?? '')
+		.split(',')
+		.map((field) => field.trim())
+		.filter((field) => field.length > 0);
+	const documentTemplate = options.documentTemplate ?? '';
+	if (documentTemplate && rankFields.length > 0) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Rank Fields and Document Template cannot be used together',
+			{
+				itemIndex,
+				description:
+					'Both set the text sent for each document. Reference the fields in the template instead, e.g. {{metadata.title}}, or clear one of them.',
+			},
+		);
+	}
+
+	let calibration: CalibrationSettings | undefined;
+	if (options.scoreCalibration && options.scoreCalibration !== 'none') {
+		calibration = {
+			method: options.scoreCalibration,
+			temperature: options.softmaxTemperature ?? DEFAULT_SOFTMAX_TEMPERATURE,
+		};
+		if (options.scoreCalibration === 'curve') {
+			const calibrationModel = backend === 'localBm25' ? 'bm25' : modelName;
+			let curves: Record<string, CalibrationCurve>;
+			try {
+				curves = parseCalibrationCurves(options.calibrationCurves ?? '{}');
+			} catch (error) {
+				throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
+			}
+			calibration.curve = curves[calibrationModel] ?? curves[DEFAULT_CURVE_KEY];
+			if (!calibration.curve) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`No calibration curve for model "${calibrationModel}"`,
+					{
+						itemIndex,
+						description: `Add a "${calibrationModel}" or "${DEFAULT_CURVE_KEY}" entry to Calibration Curves`,
+					},
+				);
+			}
+		}
+	}
+
+	const sharedOptions = {
+		node: this.getNode(),
+		topN,
+		batchSize: options.batchSize,
+		maxConcurrency: options.maxConcurrency,
+		minRelevanceScore: options.minRelevanceScore,
+		thresholdMode: options.thresholdMode,
+		thresholdFallback: options.thresholdFallback,
+		rankFields,
+		queryTemplate: queryTemplate || undefined,
+		documentTemplate: documentTemplate || undefined,
+		maxTokensPerDocument: options.maxTokensPerDocument,
+		chunkOverlap: options.chunkOverlap,
+		chunkAggregation: options.chunkAggregation,
+		chunkTopK: options.chunkTopK,
+		cache: options.cacheResults ? createCacheOptions.call(this, options) : undefined,
+		fusion:
+			options.scoreFusion && options.scoreFusion !== 'none'
+				? {
+						method: options.scoreFusion,
+						scoreKey: options.firstStageScoreKey || 'score',
+						rerankWeight: options.rerankWeight ?? DEFAULT_RERANK_WEIGHT,
+						rrfK: options.rrfK ?? DEFAULT_RRF_K,
+					}
+				: undefined,
+		duplicateThreshold: options.removeDuplicates
+			? (options.duplicateThreshold ?? DEFAULT_DUPLICATE_THRESHOLD)
+			: undefined,
+		mmrLambda: options.diversify ? (options.mmrLambda ?? DEFAULT_MMR_LAMBDA) : undefined,
+		queryDelimiter: options.queryDelimiter || undefined,
+		// An expression can return an array of queries; typed values hold one query per line.
+		additionalQueries: Array.isArray(options.additionalQueries)
+			? options.additionalQueries.map(String)
+			: (options.additionalQueries ?? '').split('\n'),
+		queryAggregation: options.queryAggregation,
+		inputLimits:
+			options.maxDocuments || options.maxDocumentCharacters || options.maxPayloadKb
+				? {
+						maxDocuments: options.maxDocuments
+							? { limit: options.maxDocuments, action: options.maxDocumentsAction ?? 'dropTail' }
+							: undefined,
+						maxCharacters: options.maxDocumentCharacters
+							? {
+									limit: options.maxDocumentCharacters,
+									action: options.maxDocumentCharactersAction ?? 'truncate',
+								}
+							: undefined,
+						maxPayload: options.maxPayloadKb
+							? {
+									limit: options.maxPayloadKb * 1024,
+									action: options.maxPayloadAction ?? 'dropTail',
+								}
+							: undefined,
+					}
+				: undefined,
+		calibration,
+		abortSignal: this.getExecutionCancelSignal(),
+		logger: this.logger,
+	};
+
+	if (backend === 'localBm25') {
+		return new AzureCohereReranker({
+			...sharedOptions,
+			backend,
+			endpointUrl: '',
+			modelName: 'bm25',
+		});
+	}
+
+	const { endpointUrl, headers, request } = await createAuthenticatedRequest.call(this, {
+		authentication,
+		endpointUrl: endpointUrlParam,
+		provider,
+		itemIndex,
+	});
+
+	const fallbackEndpoints = (this.getNodeParameter('fallbackEndpoints', itemIndex, {}) ?? {}) as {
+		endpoints?: Array<{ endpointUrl?: string; authentication?: string }>;
+	};
+	const fallbacks: RerankEndpoint[] = [];
+	for (const [position, fallback] of (fallbackEndpoints.endpoints ?? []).entries()) {
+		if (!fallback.endpointUrl) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Fallback endpoint ${position + 1} is missing its endpoint URL`,
+				{ itemIndex },
+			);
+		}
+		fallbacks.push(
+			await createAuthenticatedRequest.call(this, {
+				authentication:
+					!fallback.authentication || fallback.authentication === 'primary'
+						? authentication
+						: fallback.authentication,
+				endpointUrl: fallback.endpointUrl,
+				provider,
+				itemIndex,
+			}),
+		);
+	}
+
+	return new AzureCohereReranker({
+		...sharedOptions,
+		endpointUrl,
+		headers,
+		modelName,
+		provider,
+		retry: {
+			maxAttempts: options.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+			baseDelayMs: options.retryBaseDelay ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+			jitter: options.retryJitter ?? DEFAULT_RETRY_POLICY.jitter,
+		},
+		timeoutMs: options.timeout ?? DEFAULT_TIMEOUT_MS,
+		onError: options.onError,
+		request,
+		fallbacks,
+		rateLimit:
+			options.requestsPerMinute || options.maxConcurrentRequests
+				? {
+						requestsPerMinute: options.requestsPerMinute ?? 0,
+						maxConcurrent: options.maxConcurrentRequests ?? 0,
+					}
+				: undefined,
+		circuitBreaker: {
+			failureThreshold: options.circuitBreakerThreshold ?? DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+			cooldownMs:
+				(options.circuitBreakerCooldown ?? DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS) * 1000,
+		},
+	});
+}
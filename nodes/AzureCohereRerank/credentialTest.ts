@@ -0,0 +1,226 @@
+import {
+	ApplicationError,
+	jsonParse,
+	type ICredentialTestFunctions,
+	type ICredentialsDecrypted,
+	type IHttpRequestOptions,
+	type INodeCredentialTestResult,
+} from 'n8n-workflow';
+
+import { parseEndpointApiKeys } from './authentication';
+import { normalizeEndpointUrl } from './endpointUrl';
+import { getEntraIdAccessToken, getTokenErrorMessage, type EntraIdCredentials } from './entraId';
+import { getErrorCode, getErrorStatus, type HttpErrorLike } from './GenericFunctions';
+import { rerankProviders } from './providers';
+
+type AzureCohereRerankCredentials = {
+	endpointUrl?: string;
+	authType?: 'apiKey' | 'bearer' | 'entraId';
+	apiKey?: string;
+	bearerToken?: string;
+	testModel?: string;
+} & EntraIdCredentials;
+
+type AzureCohereRerankFallbackCredentials = {
+	headerName?: string;
+	apiKeys?: string;
+	testModel?: string;
+};
+
+type ProbeRequest = (options: IHttpRequestOptions) => Promise<unknown>;
+
+const PROBE_DOCUMENTS = ['n8n credential test', 'Azure Cohere Rerank'];
+
+const error = (message: string): INodeCredentialTestResult => ({ status: 'Error', message });
+
+const getErrorMessage = (requestError: unknown) => {
+	const candidate = requestError as HttpErrorLike & { error?: unknown };
+	const body = candidate?.error;
+	if (typeof body === 'string' && body) return body;
+	if (body && typeof body === 'object') return JSON.stringify(body);
+	return candidate?.message ?? 'Unknown error';
+};
+
+/**
+ * Translates a failed probe into the most likely misconfiguration so users know which field
+ * to fix instead of seeing a bare status code.
+ */
+const describeFailure = (requestError: unknown, url: URL, modelName: string): string => {
+	const code = getErrorCode(requestError);
+	const status = getErrorStatus(requestError);
+	const message = getErrorMessage(requestError);
+
+	if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+		return `Could not resolve ${url.host}. Check the deployment name and region in the endpoint URL.`;
+	}
+	if (code === 'ECONNREFUSED' || code === 'ETIMEDOUT' || code === 'ECONNRESET') {
+		return `Could not connect to ${url.host} (${code}). Check the endpoint URL and network access.`;
+	}
+	if (status === 401 || status === 403) {
+		return `Authentication failed (${status}). Check the API key, bearer token or Entra ID settings and that they belong to this deployment.`;
+	}
+	if (status === 404) {
+		return `Endpoint not found (404). Make sure the URL points to the rerank route, e.g. https://<deployment>.<region>.models.ai.azure.com/v1/rerank.`;
+	}
+	// Only a model the user chose can be the misconfiguration; without one nothing was sent.
+	if (modelName && (status === 400 || status === 422) && /model/i.test(message)) {
+		return `The deployment rejected model "${modelName}" (${status}). Check Model for Connection Test: ${message}`;
+	}
+	return `Rerank probe failed${status ? ` (${status})` : ''}: ${message}`;
+};
+
+/** Parses and checks an endpoint URL, returning the error to report when it is not usable. */
+const parseProbeUrl = (endpointUrl: string): URL | INodeCredentialTestResult => {
+	let url: URL;
+	try {
+		url = new URL(normalizeEndpointUrl(endpointUrl));
+	} catch (urlError) {
+		return error((urlError as Error).message);
+	}
+	if (!/\/rerank\/?$/.test(url.pathname)) {
+		return error(
+			`Endpoint URL path "${url.pathname}" is missing the rerank route. It should end with /v1/rerank.`,
+		);
+	}
+	return url;
+};
+
+// Credential tests only get the legacy request helper, there is no httpRequest here.
+function createProbeRequest(this: ICredentialTestFunctions): ProbeRequest {
+	return async (options) => {
+		// eslint-disable-next-line @n8n/community-nodes/no-deprecated-workflow-functions
+		const response: unknown = await this.helpers.request({
+			method: options.method,
+			uri: options.url,
+			headers: options.headers,
+			body: typeof options.body === 'string' ? options.body : JSON.stringify(options.body),
+		});
+		return typeof response === 'string' ? jsonParse<unknown>(response) : response;
+	};
+}
+
+/** Sends the two-document probe rerank to `url` and checks that it returns rerank results. */
+const sendProbe = async (
+	request: ProbeRequest,
+	url: URL,
+	headers: Record<string, string>,
+	testModel?: string,
+): Promise<INodeCredentialTestResult> => {
+	// The test only sees the credential, so the node's API Flavor is inferred from the route.
+	const provider = /\/v2\/rerank$/.test(url.pathname.replace(/\/+$/, ''))
+		? rerankProviders.cohereV2
+		: rerankProviders.azureV1;
+	const modelName = testModel?.trim() ?? '';
+	if (!modelName && provider === rerankProviders.cohereV2) {
+		return error('/v2/rerank endpoints require a model. Set Model for Connection Test.');
+	}
+
+	const body = provider.buildRequestBody({
+		query: 'credential test',
+		documents: PROBE_DOCUMENTS,
+		topN: PROBE_DOCUMENTS.length,
+		modelName,
+	});
+	if (!modelName) delete body.model;
+
+	let response: unknown;
+	try {
+		response = await request({
+			method: 'POST',
+			url: url.toString(),
+			headers: { 'Content-Type': 'application/json', ...headers },
+			body,
+		});
+	} catch (requestError) {
+		return error(describeFailure(requestError, url, modelName));
+	}
+
+	const results = provider.parseResponse(response)?.results;
+	const valid =
+		!!results &&
+		results.length > 0 &&
+		results.every(
+			(result) => typeof result.index === 'number' && typeof result.relevance_score === 'number',
+		);
+	if (!valid) {
+		return error(
+			'The endpoint answered but did not return rerank results. Check that the URL points to a Cohere rerank deployment.',
+		);
+	}
+
+	return { status: 'OK', message: 'Connection successful' };
+};
+
+/**
+ * Credential test for `azureCohereRerankApi`. Sends a two-document rerank with the configured
+ * authentication so a passing test means the node can actually rerank with these settings.
+ */
+export async function azureCohereRerankApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = (credential.data ?? {}) as AzureCohereRerankCredentials;
+
+	if (!credentials.endpointUrl) return error('Endpoint URL is required');
+	const url = parseProbeUrl(credentials.endpointUrl);
+	if (!(url instanceof URL)) return url;
+
+	const request = createProbeRequest.call(this);
+	const headers: Record<string, string> = {};
+	try {
+		if (credentials.authType === 'entraId') {
+			const token = await getEntraIdAccessToken(credentials, request);
+			headers.Authorization = `Bearer ${token}`;
+		} else if (credentials.authType === 'bearer') {
+			if (!credentials.bearerToken) return error('Bearer token is required');
+			headers.Authorization = `Bearer ${credentials.bearerToken}`;
+		} else {
+			if (!credentials.apiKey) return error('API key is required');
+			headers['api-key'] = credentials.apiKey;
+		}
+	} catch (tokenError) {
+		return error(
+			tokenError instanceof ApplicationError
+				? tokenError.message
+				: getTokenErrorMessage(tokenError),
+		);
+	}
+
+	return await sendProbe(request, url, headers, credentials.testModel);
+}
+
+/**
+ * Credential test for `azureCohereRerankFallbackApi`. Probes every endpoint with its own key and
+ * names the first endpoint that fails.
+ */
+export async function azureCohereRerankFallbackApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const credentials = (credential.data ?? {}) as AzureCohereRerankFallbackCredentials;
+
+	let apiKeys: Array<[string, string]>;
+	try {
+		apiKeys = parseEndpointApiKeys(credentials.apiKeys);
+	} catch (parseError) {
+		return error((parseError as Error).message);
+	}
+	if (!apiKeys.length) return error('API Keys by Endpoint needs at least one endpoint URL and key');
+
+	const request = createProbeRequest.call(this);
+	for (const [endpointUrl, apiKey] of apiKeys) {
+		const url = parseProbeUrl(endpointUrl);
+		const result =
+			url instanceof URL
+				? await sendProbe(
+						request,
+						url,
+						{ [credentials.headerName || 'api-key']: apiKey },
+						credentials.testModel,
+					)
+				: url;
+		if (result.status !== 'OK') return error(`${endpointUrl}: ${result.message}`);
+	}
+
+	return { status: 'OK', message: 'Connection successful' };
+}
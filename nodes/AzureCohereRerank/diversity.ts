@@ -0,0 +1,91 @@
+// Word 3-grams: short enough to match reworded overlaps, long enough to ignore shared stop words.
+const SHINGLE_SIZE = 3;
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.9;
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+// Diversity only looks at the best Top N × this many reranked documents, which keeps the
+// pairwise similarity work bounded however many documents were reranked.
+export const DIVERSITY_POOL_FACTOR = 4;
+
+export const getShingles = (text: string): Set<string> => {
+	const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+	if (words.length <= SHINGLE_SIZE) return new Set([words.join(' ')]);
+
+	const shingles = new Set<string>();
+	for (let start = 0; start + SHINGLE_SIZE <= words.length; start++) {
+		shingles.add(words.slice(start, start + SHINGLE_SIZE).join(' '));
+	}
+	return shingles;
+};
+
+export const jaccard = (a: Set<string>, b: Set<string>) => {
+	if (a.size === 0 && b.size === 0) return 1;
+	let shared = 0;
+	for (const shingle of a) if (b.has(shingle)) shared++;
+	return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Drops items whose shingles are at least `threshold` Jaccard-similar to an earlier item. Items
+ * are expected best first, so the higher ranked copy of a duplicate is the one kept.
+ */
+export const removeNearDuplicates = <T>(
+	items: T[],
+	getItemShingles: (item: T) => Set<string>,
+	threshold: number,
+): T[] => {
+	const kept: Array<{ item: T; shingles: Set<string> }> = [];
+	for (const item of items) {
+		const shingles = getItemShingles(item);
+		if (kept.some((existing) => jaccard(existing.shingles, shingles) >= threshold)) continue;
+		kept.push({ item, shingles });
+	}
+	return kept.map(({ item }) => item);
+};
+
+/**
+ * Maximal marginal relevance: repeatedly picks the item maximizing
+ * `lambda × relevance − (1 − lambda) × max similarity to the items already picked`.
+ * Scores are divided by the best score first so they weigh the same as the 0–1 Jaccard
+ * similarity, whatever the scale of the rerank or fused score.
+ */
+export const selectByMmr = <T>(
+	items: T[],
+	getScore: (item: T) => number,
+	getItemShingles: (item: T) => Set<string>,
+	lambda: number,
+	count: number,
+): T[] => {
+	const scores = items.map(getScore);
+	const max = Math.max(...scores);
+	const candidates = items.map((item, position) => ({
+		item,
+		relevance: max > 0 ? scores[position] / max : 1,
+		shingles: getItemShingles(item),
+		maxSimilarity: 0,
+	}));
+
+	const selected: T[] = [];
+	while (selected.length < count && candidates.length > 0) {
+		let best = 0;
+		let bestScore = -Infinity;
+		candidates.forEach((candidate, position) => {
+			const score = lambda * candidate.relevance - (1 - lambda) * candidate.maxSimilarity;
+			if (score > bestScore) {
+				best = position;
+				bestScore = score;
+			}
+		});
+
+		const [picked] = candidates.splice(best, 1);
+		selected.push(picked.item);
+		for (const candidate of candidates) {
+			candidate.maxSimilarity = Math.max(
+				candidate.maxSimilarity,
+				jaccard(candidate.shingles, picked.shingles),
+			);
+		}
+	}
+	return selected;
+};
@@ -0,0 +1,88 @@
+import { ApplicationError } from 'n8n-workflow';
+
+/** Azure AI model inference API version added to Foundry and Azure OpenAI style URLs. */
+export const DEFAULT_AZURE_API_VERSION = '2024-05-01-preview';
+
+const EXAMPLE_URL = 'https://<deployment>.<region>.models.ai.azure.com/v1/rerank';
+
+// Pages users copy by mistake instead of the deployment's Target URI.
+const PORTAL_HOSTS = ['portal.azure.com', 'ai.azure.com', 'ml.azure.com', 'oai.azure.com'];
+
+const WRONG_ROUTES: Array<[RegExp, string]> = [
+	[/\/chat\/completions$/, 'chat completions'],
+	[/\/completions$/, 'completions'],
+	[/\/embeddings$/, 'embeddings'],
+];
+
+const hasHostSuffix = (host: string, ...suffixes: string[]) =>
+	suffixes.some((suffix) => host.endsWith(suffix));
+
+/**
+ * Validates an endpoint URL and completes the Azure forms users commonly paste:
+ *
+ * - serverless `*.models.ai.azure.com` and managed `*.inference.ml.azure.com` hosts get
+ *   `rerankPath` (e.g. `/v1/rerank`) when the path is empty or only a version
+ * - Foundry `*.services.ai.azure.com[/models]` gets `/models/rerank`
+ * - Azure OpenAI style `/openai/deployments/<name>` gets `/rerank`
+ *
+ * Foundry and Azure OpenAI style URLs also get `api-version` unless they already carry one.
+ * Other hosts are only validated and returned unchanged. Throws with an actionable message when
+ * the URL is not usable.
+ */
+export const normalizeEndpointUrl = (value: string, rerankPath = '/v1/rerank'): string => {
+	const trimmed = value.trim();
+	const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+	let url: URL;
+	try {
+		url = new URL(withScheme);
+	} catch {
+		// This module has no node to attach an error to; callers wrap it in a NodeOperationError.
+		// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+		throw new ApplicationError(`Endpoint URL "${value}" is not a valid URL, e.g. ${EXAMPLE_URL}`);
+	}
+	if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+		throw new ApplicationError(`Endpoint URL must use https, got "${url.protocol}"`);
+	}
+
+	const host = url.hostname.toLowerCase();
+	if (PORTAL_HOSTS.includes(host)) {
+		throw new ApplicationError(
+			`Endpoint URL points to the ${host} portal, not to a deployment. Copy the Target URI from the deployment's details page, e.g. ${EXAMPLE_URL}`,
+		);
+	}
+
+	const path = url.pathname.replace(/\/+$/, '');
+	for (const [pattern, route] of WRONG_ROUTES) {
+		if (pattern.test(path)) {
+			throw new ApplicationError(
+				`Endpoint URL points to the ${route} route. Use the rerank deployment's endpoint, e.g. ${EXAMPLE_URL}`,
+			);
+		}
+	}
+
+	let addApiVersion = false;
+	if (hasHostSuffix(host, '.models.ai.azure.com', '.inference.ml.azure.com')) {
+		if (path === '') url.pathname = rerankPath;
+		else if (/^\/v\d+$/.test(path)) url.pathname = `${path}/rerank`;
+		else return withScheme;
+	} else if (hasHostSuffix(host, '.services.ai.azure.com')) {
+		if (path === '' || path === '/models') url.pathname = '/models/rerank';
+		else if (!path.startsWith('/models/')) return withScheme;
+		addApiVersion = true;
+	} else if (/^\/openai\/deployments\/[^/]+(\/rerank)?$/.test(path)) {
+		url.pathname = path.endsWith('/rerank') ? path : `${path}/rerank`;
+		addApiVersion = true;
+	} else if (hasHostSuffix(host, '.openai.azure.com', '.cognitiveservices.azure.com')) {
+		throw new ApplicationError(
+			`Endpoint URL is missing the deployment. Use https://${host}/openai/deployments/<deployment>/rerank`,
+		);
+	} else {
+		return withScheme;
+	}
+
+	if (addApiVersion && !url.searchParams.has('api-version')) {
+		url.searchParams.set('api-version', DEFAULT_AZURE_API_VERSION);
+	}
+	return url.toString();
+};
@@ -0,0 +1,166 @@
+import { createHash, createSign, randomUUID } from 'crypto';
+import { ApplicationError, jsonParse, type IHttpRequestOptions } from 'n8n-workflow';
+
+export interface EntraIdCredentials {
+	tenantId?: string;
+	clientId?: string;
+	clientAuthentication?: 'secret' | 'certificate';
+	clientSecret?: string;
+	certificate?: string;
+	privateKey?: string;
+	scope?: string;
+}
+
+type HttpRequestFunction = (options: IHttpRequestOptions) => Promise<unknown>;
+
+interface CachedToken {
+	accessToken: string;
+	expiresAt: number;
+}
+
+interface TokenResponse {
+	access_token?: string;
+	expires_in?: number | string;
+}
+
+interface TokenErrorResponse {
+	error?: string;
+	error_description?: string;
+}
+
+export const DEFAULT_ENTRA_ID_SCOPE = 'https://cognitiveservices.azure.com/.default';
+
+// Refresh a little early so a token never expires between acquisition and the rerank call.
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Shared by every reranker in the process so parallel executions reuse one token per app.
+const tokenCache = new Map<string, CachedToken>();
+
+const base64Url = (value: Buffer | string) =>
+	Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const getScope = (credentials: EntraIdCredentials) =>
+	credentials.scope?.trim() || DEFAULT_ENTRA_ID_SCOPE;
+
+const getCacheKey = (credentials: EntraIdCredentials) => {
+	const secret =
+		credentials.clientAuthentication === 'certificate'
+			? credentials.privateKey
+			: credentials.clientSecret;
+	const fingerprint = createHash('sha256')
+		.update(secret ?? '')
+		.digest('hex')
+		.slice(0, 16);
+	return [credentials.tenantId, credentials.clientId, getScope(credentials), fingerprint].join('|');
+};
+
+/**
+ * Builds the signed JWT client assertion Entra ID expects for certificate credentials.
+ * The `x5t` header is the base64url SHA-1 thumbprint of the DER encoded certificate.
+ */
+const createClientAssertion = (credentials: EntraIdCredentials, tokenUrl: string) => {
+	const der = Buffer.from(
+		(credentials.certificate ?? '').replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, ''),
+		'base64',
+	);
+	if (der.length === 0 || !credentials.privateKey) {
+		throw new ApplicationError(
+			'Certificate and private key are required for Entra ID certificate authentication',
+		);
+	}
+
+	const now = Math.floor(Date.now() / 1000);
+	const header = {
+		alg: 'RS256',
+		typ: 'JWT',
+		x5t: base64Url(createHash('sha1').update(der).digest()),
+	};
+	const payload = {
+		aud: tokenUrl,
+		iss: credentials.clientId,
+		sub: credentials.clientId,
+		jti: randomUUID(),
+		nbf: now,
+		exp: now + 600,
+	};
+
+	const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+	const signature = createSign('RSA-SHA256').update(unsigned).sign(credentials.privateKey);
+	return `${unsigned}.${base64Url(signature)}`;
+};
+
+/**
+ * Describes a failed token request with the reason Entra ID gave, e.g. `AADSTS7000215: Invalid
+ * client secret provided`, which the HTTP error message alone does not contain.
+ */
+export const getTokenErrorMessage = (error: unknown) => {
+	// `response.data` from httpRequest, `error` from the legacy request helper.
+	const candidate = error as
+		| { message?: string; response?: { data?: unknown }; error?: unknown }
+		| undefined;
+	const data = candidate?.response?.data ?? candidate?.error;
+	const parsed =
+		typeof data === 'string'
+			? jsonParse<TokenErrorResponse>(data, { fallbackValue: {} })
+			: (data as TokenErrorResponse | undefined);
+	const reason = parsed?.error_description;
+	return `Failed to acquire Entra ID token: ${reason ?? candidate?.message ?? 'Unknown error'}`;
+};
+
+/**
+ * Returns an access token for the client-credentials flow, serving it from the process-wide
+ * cache until shortly before it expires. `forceRefresh` skips the cache, e.g. after a 401.
+ */
+export const getEntraIdAccessToken = async (
+	credentials: EntraIdCredentials,
+	httpRequest: HttpRequestFunction,
+	{ forceRefresh = false }: { forceRefresh?: boolean } = {},
+): Promise<string> => {
+	if (!credentials.tenantId || !credentials.clientId) {
+		throw new ApplicationError('Tenant ID and client ID are required for Entra ID authentication');
+	}
+
+	const cacheKey = getCacheKey(credentials);
+	const cached = tokenCache.get(cacheKey);
+	if (!forceRefresh && cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+		return cached.accessToken;
+	}
+
+	const tokenUrl = `https://login.microsoftonline.com/${encodeURIComponent(credentials.tenantId)}/oauth2/v2.0/token`;
+	const form = new URLSearchParams({
+		grant_type: 'client_credentials',
+		client_id: credentials.clientId,
+		scope: getScope(credentials),
+	});
+
+	if (credentials.clientAuthentication === 'certificate') {
+		form.set('client_assertion_type', 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer');
+		form.set('client_assertion', createClientAssertion(credentials, tokenUrl));
+	} else {
+		if (!credentials.clientSecret) {
+			throw new ApplicationError('Client secret is required for Entra ID authentication');
+		}
+		form.set('client_secret', credentials.clientSecret);
+	}
+
+	// A token refused by the endpoint must not be served again if the refresh fails.
+	if (forceRefresh) tokenCache.delete(cacheKey);
+	// Failures reach the caller unchanged, see `getTokenErrorMessage`.
+	const response = (await httpRequest({
+		method: 'POST',
+		url: tokenUrl,
+		body: form.toString(),
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+	})) as TokenResponse;
+
+	if (!response?.access_token) {
+		throw new ApplicationError('Entra ID token response did not contain an access token');
+	}
+
+	const expiresInSeconds = Number(response.expires_in) || 3600;
+	tokenCache.set(cacheKey, {
+		accessToken: response.access_token,
+		expiresAt: Date.now() + expiresInSeconds * 1000,
+	});
+	return response.access_token;
+};
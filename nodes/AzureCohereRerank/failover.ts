@@ -0,0 +1,47 @@
+export interface CircuitBreakerPolicy {
+	/** Consecutive failures after which the endpoint is skipped. */
+	failureThreshold: number;
+	cooldownMs: number;
+}
+
+interface CircuitState {
+	failures: number;
+	openUntil: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_THRESHOLD = 3;
+export const DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS = 60;
+
+/**
+ * Tracks consecutive failures per endpoint URL. Once an endpoint reaches the threshold it is
+ * skipped until the cool-down has passed; the next request after that probes it again and a
+ * single failure reopens the circuit.
+ */
+export class CircuitBreaker {
+	private readonly circuits = new Map<string, CircuitState>();
+
+	isOpen(endpointUrl: string, now = Date.now()) {
+		const circuit = this.circuits.get(endpointUrl);
+		return !!circuit && circuit.openUntil > now;
+	}
+
+	recordSuccess(endpointUrl: string) {
+		this.circuits.delete(endpointUrl);
+	}
+
+	/** Returns `true` when this failure opened the circuit. */
+	recordFailure(endpointUrl: string, policy: CircuitBreakerPolicy, now = Date.now()) {
+		const circuit = this.circuits.get(endpointUrl) ?? { failures: 0, openUntil: 0 };
+		circuit.failures++;
+		this.circuits.set(endpointUrl, circuit);
+
+		if (circuit.failures < Math.max(1, policy.failureThreshold)) return false;
+		circuit.openUntil = now + policy.cooldownMs;
+		// Half-open: one more failure after the cool-down opens the circuit again.
+		circuit.failures = Math.max(1, policy.failureThreshold) - 1;
+		return true;
+	}
+}
+
+// Shared by every reranker in the process so one execution's failures protect the others.
+export const circuitBreaker = new CircuitBreaker();
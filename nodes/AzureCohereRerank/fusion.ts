@@ -0,0 +1,66 @@
+export type FusionMethod = 'weightedLinear' | 'rrf' | 'minMax';
+
+export interface FusionSettings {
+	method: FusionMethod;
+	/** Share of the rerank score in the linear and min-max blends, 0–1. */
+	rerankWeight: number;
+	/** Reciprocal rank fusion smoothing constant. */
+	rrfK: number;
+}
+
+export interface FusionCandidate {
+	relevance_score: number;
+	/** Retriever similarity, higher is better. Missing scores contribute nothing. */
+	firstStageScore?: number;
+}
+
+export const DEFAULT_RERANK_WEIGHT = 0.7;
+export const DEFAULT_RRF_K = 60;
+
+const normalize = (values: Array<number | undefined>) => {
+	const present = values.filter((value): value is number => value !== undefined);
+	const min = Math.min(...present);
+	const range = Math.max(...present) - min;
+	return values.map((value) => (value === undefined || !(range > 0) ? 0 : (value - min) / range));
+};
+
+/** 1-based ranks by descending score; candidates without a score get no rank. */
+const getRanks = (values: Array<number | undefined>) => {
+	const ranks = new Array<number | undefined>(values.length);
+	values
+		.map((value, position) => ({ value, position }))
+		.filter((entry): entry is { value: number; position: number } => entry.value !== undefined)
+		.sort((a, b) => b.value - a.value)
+		.forEach((entry, rank) => (ranks[entry.position] = rank + 1));
+	return ranks;
+};
+
+/** Returns one fused score per candidate, in the order of `candidates`. */
+export const fuseScores = (candidates: FusionCandidate[], settings: FusionSettings) => {
+	const rerankScores = candidates.map((candidate) => candidate.relevance_score);
+	const firstStageScores = candidates.map((candidate) => candidate.firstStageScore);
+	const weight = Math.min(1, Math.max(0, settings.rerankWeight));
+
+	if (settings.method === 'rrf') {
+		const rerankRanks = getRanks(rerankScores);
+		const firstStageRanks = getRanks(firstStageScores);
+		const contribution = (rank?: number) => (rank === undefined ? 0 : 1 / (settings.rrfK + rank));
+		return candidates.map(
+			(_, position) =>
+				contribution(rerankRanks[position]) + contribution(firstStageRanks[position]),
+		);
+	}
+
+	if (settings.method === 'minMax') {
+		const rerank = normalize(rerankScores);
+		const firstStage = normalize(firstStageScores);
+		return candidates.map(
+			(_, position) => weight * rerank[position] + (1 - weight) * firstStage[position],
+		);
+	}
+
+	return candidates.map(
+		({ relevance_score, firstStageScore }) =>
+			weight * relevance_score + (1 - weight) * (firstStageScore ?? 0),
+	);
+};
@@ -0,0 +1,145 @@
+import { ApplicationError } from 'n8n-workflow';
+
+export type InputLimitAction = 'truncate' | 'dropTail' | 'dropDocument' | 'fail';
+
+export interface InputLimit {
+	/** 0 disables the guard. */
+	limit: number;
+	action: InputLimitAction;
+}
+
+export interface InputLimits {
+	/** Leaving documents out is the only way to meet a count, so there is no `truncate`. */
+	maxDocuments?: InputLimit & { action: 'dropTail' | 'fail' };
+	/** Each document is checked on its own, so documents are dropped one by one, not as a tail. */
+	maxCharacters?: InputLimit & { action: Exclude<InputLimitAction, 'dropTail'> };
+	/** Bytes of JSON per request. */
+	maxPayload?: InputLimit & {
+		action: Exclude<InputLimitAction, 'dropDocument'>;
+		/** Size of the request body without any document. */
+		baseBytes: number;
+		/** Texts per request; each batch has its own budget. */
+		batchSize: number;
+		/** The texts a document is sent as, e.g. its chunks. Defaults to the whole text. */
+		split?: (text: string) => string[];
+	};
+}
+
+export interface GuardedDocument {
+	/** Position in the documents passed in. */
+	index: number;
+	text: string;
+}
+
+export interface GuardedInput {
+	documents: GuardedDocument[];
+	dropped: number;
+	truncated: number;
+}
+
+export const TRUNCATION_MARKER = ' …[truncated]';
+
+// Each document adds its JSON string and a separating comma to the request body.
+const documentBytes = (text: string) => Buffer.byteLength(JSON.stringify(text)) + 1;
+
+const truncateToCharacters = (text: string, limit: number) =>
+	limit > TRUNCATION_MARKER.length
+		? text.slice(0, limit - TRUNCATION_MARKER.length) + TRUNCATION_MARKER
+		: text.slice(0, limit);
+
+/** Longest truncation of `text` that `fits`, `undefined` when not even the marker does. */
+const truncateToFit = (text: string, fits: (candidate: string) => boolean) => {
+	if (!fits(TRUNCATION_MARKER)) return undefined;
+	let low = 0;
+	let high = text.length;
+	while (low < high) {
+		const middle = Math.ceil((low + high) / 2);
+		if (fits(text.slice(0, middle) + TRUNCATION_MARKER)) low = middle;
+		else high = middle - 1;
+	}
+	return text.slice(0, low) + TRUNCATION_MARKER;
+};
+
+/**
+ * Applies the document count, per-document length and payload size guards in that order.
+ * `truncate` shortens content to fit, `dropTail` leaves out every document from the first one
+ * over the count or payload limit, `dropDocument` leaves out each document over the length
+ * limit, and `fail` throws naming the index of the first offending document. The payload guard measures the
+ * texts each document is sent as, so chunked documents are measured chunk by chunk.
+ */
+export const applyInputLimits = (texts: string[], limits: InputLimits): GuardedInput => {
+	let documents: GuardedDocument[] = texts.map((text, index) => ({ index, text }));
+	const truncated = new Set<number>();
+
+	const { maxDocuments, maxCharacters, maxPayload } = limits;
+	if (maxDocuments?.limit && documents.length > maxDocuments.limit) {
+		if (maxDocuments.action === 'fail') {
+			throw new ApplicationError(
+				`Received ${documents.length} documents, more than the maximum of ${maxDocuments.limit}. The first document over the limit is at index ${maxDocuments.limit}.`,
+			);
+		}
+		documents = documents.slice(0, maxDocuments.limit);
+	}
+
+	if (maxCharacters?.limit) {
+		const limit = maxCharacters.limit;
+		const offending = documents.find((document) => document.text.length > limit);
+		if (offending && maxCharacters.action === 'fail') {
+			throw new ApplicationError(
+				`Document at index ${offending.index} has ${offending.text.length} characters, more than the maximum of ${limit}`,
+			);
+		}
+		documents = documents.flatMap((document) => {
+			if (document.text.length <= limit) return [document];
+			if (maxCharacters.action === 'dropDocument') return [];
+			truncated.add(document.index);
+			return [{ ...document, text: truncateToCharacters(document.text, limit) }];
+		});
+	}
+
+	if (maxPayload?.limit) {
+		const { limit, baseBytes, action, split = (text: string) => [text] } = maxPayload;
+		const batchSize = Math.max(1, maxPayload.batchSize);
+		// Bytes in the current batch and texts sent so far, after the kept documents.
+		let used = baseBytes;
+		let sent = 0;
+		/** The batch state after sending `text`, `undefined` when a request would go over. */
+		const place = (text: string) => {
+			let bytes = used;
+			let count = sent;
+			for (const part of split(text)) {
+				if (count % batchSize === 0) bytes = baseBytes;
+				bytes += documentBytes(part);
+				if (bytes > limit) return undefined;
+				count++;
+			}
+			return { bytes, count };
+		};
+
+		const kept: GuardedDocument[] = [];
+		for (const document of documents) {
+			let text = document.text;
+			let placed = place(text);
+			if (!placed) {
+				if (action === 'fail') {
+					throw new ApplicationError(
+						`Document at index ${document.index} pushes the request payload past the maximum of ${limit} bytes`,
+					);
+				}
+				if (action === 'dropTail') break;
+
+				const shortened = truncateToFit(text, (candidate) => place(candidate) !== undefined);
+				placed = shortened === undefined ? undefined : place(shortened);
+				if (shortened === undefined || !placed) continue;
+				text = shortened;
+				truncated.add(document.index);
+			}
+			kept.push({ ...document, text });
+			used = placed.bytes;
+			sent = placed.count;
+		}
+		documents = kept;
+	}
+
+	return { documents, dropped: texts.length - documents.length, truncated: truncated.size };
+};
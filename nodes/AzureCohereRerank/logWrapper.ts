@@ -0,0 +1,87 @@
+import {
+	NodeConnectionTypes,
+	NodeError,
+	NodeOperationError,
+	type ISupplyDataFunctions,
+} from 'n8n-workflow';
+
+import { combineUsage, type AzureCohereReranker, type DocumentInput } from './reranker';
+
+/**
+ * Records every `rerank` call as an input/output run of the AI reranker connection, the way
+ * n8n's built-in AI sub-nodes do, so each call can be inspected under the node in the execution
+ * view. `compressDocuments` is called with the proxy as `this`, so its internal `rerank` call
+ * is recorded too.
+ */
+export const logWrapper = (reranker: AzureCohereReranker, context: ISupplyDataFunctions) => {
+	const traceRerank = async (documents: DocumentInput[], query: string | string[]) => {
+		const startedAt = Date.now();
+		const { index } = context.addInputData(NodeConnectionTypes.AiReranker, [
+			[{ json: { query, documentCount: documents?.length ?? 0 } }],
+		]);
+
+		try {
+			const results = await reranker.rerank(documents, query);
+			const latencyMs = Date.now() - startedAt;
+			const usage = combineUsage(results);
+			context.addOutputData(NodeConnectionTypes.AiReranker, index, [
+				[
+					{
+						json: {
+							results: results.map((result) => ({
+								index: result.index,
+								relevance_score: result.relevance_score,
+								...(result.skipReason !== undefined ? { skipReason: result.skipReason } : {}),
+								...(result.fallbackReason !== undefined
+									? { fallbackReason: result.fallbackReason }
+									: {}),
+							})),
+							latencyMs,
+							// Surfaces billing in the execution's AI usage view, the same way language
+							// models report tokens.
+							...(usage ? { requestIds: usage.requestIds } : {}),
+							...(usage?.searchUnits !== undefined ? { searchUnits: usage.searchUnits } : {}),
+							...(usage?.totalTokens !== undefined
+								? {
+										tokenUsage: {
+											promptTokens: usage.totalTokens,
+											completionTokens: 0,
+											totalTokens: usage.totalTokens,
+										},
+									}
+								: {}),
+						},
+					},
+				],
+			]);
+			context.logAiEvent('ai-document-reranked', JSON.stringify({ query }));
+			return results;
+		} catch (error) {
+			const latencyMs = Date.now() - startedAt;
+			// Node errors are passed through as-is by the constructor, so the latency is added to
+			// their description rather than as an option.
+			const runError =
+				error instanceof NodeError
+					? error
+					: new NodeOperationError(context.getNode(), error as Error);
+			runError.description = [runError.description, `Failed after ${latencyMs}ms`]
+				.filter(Boolean)
+				.join(' ');
+			context.addOutputData(NodeConnectionTypes.AiReranker, index, runError);
+			// The caller (vector store or agent) reports the failure; the run above records it.
+			throw runError;
+		}
+	};
+
+	return new Proxy(reranker, {
+		get(obj, prop, receiver) {
+			if (prop === 'rerank') return traceRerank;
+			const value = Reflect.get(obj, prop, receiver);
+			if (typeof value !== 'function') return value;
+			return (...args: unknown[]) => {
+				context.logger?.debug?.(`AzureCohereRerank.${String(prop)}`);
+				return (value as (...innerArgs: unknown[]) => unknown).apply(receiver, args);
+			};
+		},
+	});
+};
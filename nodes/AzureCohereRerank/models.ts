@@ -0,0 +1,75 @@
+import type { ILoadOptionsFunctions, INodeListSearchResult } from 'n8n-workflow';
+
+import { createAuthenticatedRequest } from './authentication';
+import { rerankProviders, type ApiFlavor } from './providers';
+
+export const STATIC_MODELS = ['rerank-v3.5', 'rerank-english-v3.0', 'rerank-multilingual-v3.0'];
+
+/**
+ * Candidate URLs that describe the deployed model(s): the serverless `/info` route next to the
+ * rerank route, and an OpenAI/Cohere style model listing.
+ */
+const getModelInfoUrls = (endpointUrl: string, apiFlavor: ApiFlavor) => {
+	if (apiFlavor === 'cohereNative') {
+		return ['https://api.cohere.com/v1/models?endpoint=rerank'];
+	}
+
+	const url = new URL(endpointUrl);
+	const basePath = url.pathname.replace(/\/(v\d+\/)?rerank\/?$/, '');
+	const base = `${url.origin}${basePath}`;
+	return [`${base}/info${url.search}`, `${base}/v1/models${url.search}`];
+};
+
+const parseModelNames = (response: unknown): string[] => {
+	const payload = response as {
+		model_name?: string;
+		models?: Array<{ name?: string; id?: string }>;
+		data?: Array<{ name?: string; id?: string }>;
+	};
+	if (typeof payload?.model_name === 'string') return [payload.model_name];
+
+	const models = payload?.models ?? payload?.data ?? [];
+	return models
+		.map((model) => model.name ?? model.id)
+		.filter((name): name is string => typeof name === 'string' && name.length > 0);
+};
+
+export async function searchModels(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	let models = STATIC_MODELS;
+
+	try {
+		const apiFlavor =
+			(this.getCurrentNodeParameter('apiFlavor') as ApiFlavor | undefined) || 'azureV1';
+		const { endpointUrl, request } = await createAuthenticatedRequest.call(this, {
+			authentication: (this.getCurrentNodeParameter('authentication') as string) || 'httpBearer',
+			endpointUrl: (this.getCurrentNodeParameter('endpointUrl') as string) || '',
+			provider: rerankProviders[apiFlavor] ?? rerankProviders.azureV1,
+		});
+
+		for (const url of getModelInfoUrls(endpointUrl, apiFlavor)) {
+			try {
+				const names = parseModelNames(await request({ method: 'GET', url }));
+				if (names.length > 0) {
+					models = Array.from(new Set(names));
+					break;
+				}
+			} catch (error) {
+				this.logger.debug(`Azure Cohere Rerank model lookup failed for ${url}`, { error });
+			}
+		}
+	} catch (error) {
+		this.logger.debug('Azure Cohere Rerank could not load models, using the static list', {
+			error,
+		});
+	}
+
+	const search = filter?.toLowerCase();
+	return {
+		results: models
+			.filter((model) => !search || model.toLowerCase().includes(search))
+			.map((model) => ({ name: model, value: model })),
+	};
+}
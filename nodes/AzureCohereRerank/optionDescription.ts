@@ -0,0 +1,677 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+import { DEFAULT_DUPLICATE_THRESHOLD, DEFAULT_MMR_LAMBDA } from './diversity';
+import {
+	DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS,
+	DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+} from './failover';
+import { DEFAULT_RERANK_WEIGHT, DEFAULT_RRF_K } from './fusion';
+import { DEFAULT_SOFTMAX_TEMPERATURE } from './calibration';
+import { TRUNCATION_MARKER } from './inputLimits';
+import { DEFAULT_TIMEOUT_MS } from './reranker';
+
+/** The node's Options collection, shared by both modes. */
+export const rerankOptions: INodeProperties = {
+	displayName: 'Options',
+	name: 'options',
+	type: 'collection',
+	placeholder: 'Add Option',
+	default: {},
+	options: [
+		{
+			displayName: 'Additional Queries',
+			name: 'additionalQueries',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			placeholder: 'e.g. {{ $json.reformulations }}',
+			description:
+				'Extra queries ranked alongside the incoming query, one per line or an array from an expression. Scores are combined with Query Aggregation.',
+		},
+		{
+			displayName: 'Batch Size',
+			name: 'batchSize',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+				maxValue: 1000,
+			},
+			default: 1000,
+			description:
+				'Maximum number of documents sent per rerank request. Larger document sets are split into batches and merged by relevance score. The local backend is not batched.',
+		},
+		{
+			displayName: 'Cache Max Entries',
+			name: 'cacheMaxEntries',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 500,
+			description:
+				'Maximum number of cached rerank calls before the least recently used are evicted. In memory, nodes with the same value share one store per worker.',
+		},
+		{
+			displayName: 'Cache Results',
+			name: 'cacheResults',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether to reuse scores for identical model, query and document sets instead of calling the endpoint again. Returned documents get metadata.rerank_cache_hit.',
+		},
+		{
+			displayName: 'Cache Store',
+			name: 'cacheStore',
+			type: 'options',
+			options: [
+				{
+					name: 'In-Memory (per Worker)',
+					value: 'memory',
+					description: 'Process-wide LRU cache, lost on restart',
+				},
+				{
+					name: 'Workflow Static Data',
+					value: 'workflowStaticData',
+					description:
+						'Stored with the workflow and shared across workers. Only persisted for production executions.',
+				},
+			],
+			default: 'memory',
+		},
+		{
+			displayName: 'Cache TTL (Seconds)',
+			name: 'cacheTtl',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 300,
+			description: 'How long cached scores stay valid',
+		},
+		{
+			displayName: 'Calibration Curves',
+			name: 'calibrationCurves',
+			type: 'json',
+			default: '{\n  "rerank-v3.5": [[0, 0], [0.1, 0.5], [0.6, 1]],\n  "*": [[0, 0], [1, 1]]\n}',
+			displayOptions: {
+				show: {
+					scoreCalibration: ['curve'],
+				},
+			},
+			description:
+				'Per-model [raw, calibrated] points, interpolated linearly. The "*" entry applies to models without their own curve. Use "bm25" for the local backend.',
+		},
+		{
+			displayName: 'Chunk Aggregation',
+			name: 'chunkAggregation',
+			type: 'options',
+			options: [
+				{
+					name: 'Max',
+					value: 'max',
+					description: 'Use the score of the best matching chunk',
+				},
+				{
+					name: 'Mean of Top K',
+					value: 'meanTopK',
+					description: 'Average the scores of the best K chunks',
+				},
+			],
+			default: 'max',
+			description:
+				'How chunk scores are combined into one document score when Max Tokens per Document is set',
+		},
+		{
+			displayName: 'Chunk Overlap (Tokens)',
+			name: 'chunkOverlap',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 50,
+			description: 'Number of tokens shared by consecutive chunks of a long document',
+		},
+		{
+			displayName: 'Chunk Top K',
+			name: 'chunkTopK',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 3,
+			displayOptions: {
+				show: {
+					chunkAggregation: ['meanTopK'],
+				},
+			},
+			description: 'Number of best chunks averaged into the document score',
+		},
+		{
+			displayName: 'Circuit Breaker Cooldown (Seconds)',
+			name: 'circuitBreakerCooldown',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS,
+			description:
+				'How long an endpoint that keeps failing is skipped before it is tried again. Only used with fallback endpoints.',
+		},
+		{
+			displayName: 'Circuit Breaker Threshold',
+			name: 'circuitBreakerThreshold',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+			description:
+				'Consecutive failed requests after which an endpoint is skipped for the cool-down period. Only used with fallback endpoints.',
+		},
+		{
+			displayName: 'Diversify (MMR)',
+			name: 'diversify',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether to pick the top N by maximal marginal relevance, trading some rerank score for documents that differ from the ones already picked',
+		},
+		{
+			displayName: 'Document Template',
+			name: 'documentTemplate',
+			type: 'string',
+			typeOptions: {
+				rows: 3,
+			},
+			default: '',
+			placeholder: 'e.g. Title: {{metadata.title}}\n{{pageContent}}',
+			description:
+				'Text sent to the model for each document, with {{pageContent}} and {{metadata.key}} placeholders (dot notation supported). Missing values are left empty. Cannot be combined with Rank Fields. Leave empty to send the page content.',
+		},
+		{
+			displayName: 'Duplicate Similarity',
+			name: 'duplicateThreshold',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				maxValue: 1,
+				numberPrecision: 2,
+			},
+			default: DEFAULT_DUPLICATE_THRESHOLD,
+			displayOptions: {
+				show: {
+					removeDuplicates: [true],
+				},
+			},
+			description:
+				'Word 3-gram Jaccard similarity from which two page contents count as duplicates. 1 only removes exact copies.',
+		},
+		{
+			displayName: 'First-Stage Score Key',
+			name: 'firstStageScoreKey',
+			type: 'string',
+			default: 'score',
+			displayOptions: {
+				show: {
+					scoreFusion: ['weightedLinear', 'rrf', 'minMax'],
+				},
+			},
+			description:
+				'Metadata key (dot notation supported) holding the retriever similarity score, higher meaning more similar. Documents without it only get the rerank contribution.',
+		},
+		{
+			displayName: 'If a Document Is Too Long',
+			name: 'maxDocumentCharactersAction',
+			type: 'options',
+			options: [
+				{
+					name: 'Truncate',
+					value: 'truncate',
+					description: `Cut the document to the limit, ending with "${TRUNCATION_MARKER.trim()}"`,
+				},
+				{
+					name: 'Drop Document',
+					value: 'dropDocument',
+					description: 'Leave out each document over the limit and keep the others',
+				},
+				{
+					name: 'Fail',
+					value: 'fail',
+					description: 'Stop with an error naming the first document over the limit',
+				},
+			],
+			default: 'truncate',
+			description: 'What to do with documents longer than Max Characters per Document',
+		},
+		{
+			displayName: 'If No Document Meets Threshold',
+			name: 'thresholdFallback',
+			type: 'options',
+			options: [
+				{
+					name: 'Return No Documents',
+					value: 'empty',
+				},
+				{
+					name: 'Return Best Document',
+					value: 'bestDocument',
+				},
+			],
+			default: 'empty',
+			description:
+				'What to return when the minimum relevance score filters out every reranked document',
+		},
+		{
+			displayName: 'If Payload Is Too Large',
+			name: 'maxPayloadAction',
+			type: 'options',
+			options: [
+				{
+					name: 'Truncate',
+					value: 'truncate',
+					description: `Cut the documents that do not fit, ending with "${TRUNCATION_MARKER.trim()}"`,
+				},
+				{
+					name: 'Drop Tail',
+					value: 'dropTail',
+					description: 'Leave out every document from the first one that does not fit',
+				},
+				{
+					name: 'Fail',
+					value: 'fail',
+					description: 'Stop with an error naming the first document that does not fit',
+				},
+			],
+			default: 'dropTail',
+			description: 'What to do when a request would exceed Max Request Payload (KB)',
+		},
+		{
+			displayName: 'If Too Many Documents',
+			name: 'maxDocumentsAction',
+			type: 'options',
+			options: [
+				{
+					name: 'Drop Tail',
+					value: 'dropTail',
+					description: 'Keep the first documents up to the limit',
+				},
+				{
+					name: 'Fail',
+					value: 'fail',
+					description: 'Stop with an error naming the first document over the limit',
+				},
+			],
+			default: 'dropTail',
+			description: 'What to do when a call brings more than Max Documents per Call',
+		},
+		{
+			displayName: 'Max Attempts',
+			name: 'maxAttempts',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 3,
+			description:
+				'Maximum number of attempts per request. Only throttling (429), timeouts, 5xx responses and connection errors are retried.',
+		},
+		{
+			displayName: 'Max Characters per Document',
+			name: 'maxDocumentCharacters',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description:
+				'Longest document text sent to the endpoint, after Rank Fields are applied. Set to 0 for no limit.',
+		},
+		{
+			displayName: 'Max Concurrent Batches',
+			name: 'maxConcurrency',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: 1,
+			description: 'How many batches may be sent to the endpoint at the same time',
+		},
+		{
+			displayName: 'Max Concurrent Requests per Endpoint',
+			name: 'maxConcurrentRequests',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description:
+				'Requests in flight to one endpoint URL across all executions on this worker; further requests wait in a queue. Set to 0 for no limit.',
+		},
+		{
+			displayName: 'Max Documents per Call',
+			name: 'maxDocuments',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description: 'Most documents reranked per call. Set to 0 for no limit.',
+		},
+		{
+			displayName: 'Max Request Payload (KB)',
+			name: 'maxPayloadKb',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description:
+				'Largest JSON body per rerank request, checked before sending. Set to 0 for no limit.',
+		},
+		{
+			displayName: 'Max Tokens per Document',
+			name: 'maxTokensPerDocument',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description:
+				'Split documents longer than this many tokens (approximated by words) into overlapping chunks that are scored separately. The offsets of the matching chunk are returned in metadata.chunk_span, with source telling whether they refer to the page content or the text sent to the model. Set to 0 to disable.',
+		},
+		{
+			displayName: 'Minimum Relevance Score',
+			name: 'minRelevanceScore',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				maxValue: 1,
+				numberPrecision: 3,
+			},
+			default: 0,
+			description:
+				'Drop reranked documents scoring below this value. Set to 0 to keep every document.',
+		},
+		{
+			displayName: 'MMR Lambda',
+			name: 'mmrLambda',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				maxValue: 1,
+				numberPrecision: 2,
+			},
+			default: DEFAULT_MMR_LAMBDA,
+			displayOptions: {
+				show: {
+					diversify: [true],
+				},
+			},
+			description:
+				'Balance between relevance (1) and diversity (0) in the maximal marginal relevance selection',
+		},
+		{
+			displayName: 'On Error',
+			name: 'onError',
+			type: 'options',
+			options: [
+				{
+					name: 'Throw Error',
+					value: 'throw',
+					description: 'Fail the run when reranking fails',
+				},
+				{
+					name: 'Pass Through Top N Unranked',
+					value: 'passthroughTopN',
+					description: 'Continue with the first Top N documents in their original order',
+				},
+				{
+					name: 'Pass Through All Unranked',
+					value: 'passthroughAll',
+					description: 'Continue with every document in its original order',
+				},
+				{
+					name: 'Fall Back to Local (BM25)',
+					value: 'localBm25',
+					description: 'Rank the documents in-process by keyword overlap instead',
+				},
+			],
+			default: 'throw',
+			description:
+				'What to do when the rerank request fails or returns an unexpected response. Passed through documents get rerank_skipped and rerank_skip_reason metadata, BM25 ranked ones rerank_fallback and rerank_fallback_reason.',
+		},
+		{
+			displayName: 'Query Aggregation',
+			name: 'queryAggregation',
+			type: 'options',
+			options: [
+				{
+					name: 'Max',
+					value: 'max',
+					description: 'Score of the best matching query',
+				},
+				{
+					name: 'Mean',
+					value: 'mean',
+					description: 'Average score over all queries',
+				},
+				{
+					name: 'Reciprocal Rank Fusion',
+					value: 'rrf',
+					description: 'Sum of 1 / (60 + rank) over the per-query rankings',
+				},
+			],
+			default: 'max',
+			description:
+				'How scores are combined when ranking against several queries. The best matching query is added as matched_query metadata.',
+		},
+		{
+			displayName: 'Query Delimiter',
+			name: 'queryDelimiter',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. ||',
+			description:
+				'Splits the incoming query into several queries on this delimiter, e.g. for reformulations generated by an agent. Leave empty to rank against the query as a whole.',
+		},
+		{
+			displayName: 'Query Template',
+			name: 'queryTemplate',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. Question about our billing API: {{query}}',
+			description:
+				'Text sent to the model instead of the raw query, with a {{query}} placeholder. Applied to every query when ranking against several. Leave empty to send the query as is.',
+		},
+		{
+			displayName: 'Rank Fields',
+			name: 'rankFields',
+			type: 'string',
+			default: '',
+			placeholder: 'e.g. title, pageContent, author',
+			description:
+				'Comma-separated document or metadata keys to rank on (dot notation supported). Each document is sent as "key: value" lines instead of its full content. Cannot be combined with Document Template. Leave empty to rank on pageContent.',
+		},
+		{
+			displayName: 'Remove Near-Duplicates',
+			name: 'removeDuplicates',
+			type: 'boolean',
+			default: false,
+			description:
+				'Whether to drop documents whose page content nearly repeats a better ranked document, e.g. overlapping chunks',
+		},
+		{
+			displayName: 'Requests per Minute',
+			name: 'requestsPerMinute',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 0,
+			description:
+				"Client-side quota per endpoint URL shared by all executions on this worker, e.g. the deployment's per-minute limit. Requests over the quota wait in a queue instead of failing. Set to 0 for no limit.",
+		},
+		{
+			displayName: 'Rerank Weight',
+			name: 'rerankWeight',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+				maxValue: 1,
+				numberPrecision: 2,
+			},
+			default: DEFAULT_RERANK_WEIGHT,
+			displayOptions: {
+				show: {
+					scoreFusion: ['weightedLinear', 'minMax'],
+				},
+			},
+			description:
+				'Share of the rerank score in the fused score; the first-stage score gets the rest',
+		},
+		{
+			displayName: 'Retry Base Delay (Ms)',
+			name: 'retryBaseDelay',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 1000,
+			description:
+				'Initial delay before retrying, doubled on every attempt. Retry-After and x-ms-retry-after-ms headers take precedence.',
+		},
+		{
+			displayName: 'Retry Jitter',
+			name: 'retryJitter',
+			type: 'boolean',
+			default: true,
+			description:
+				'Whether to randomize retry delays so parallel executions do not retry in lockstep',
+		},
+		{
+			displayName: 'RRF K',
+			name: 'rrfK',
+			type: 'number',
+			typeOptions: {
+				minValue: 1,
+			},
+			default: DEFAULT_RRF_K,
+			displayOptions: {
+				show: {
+					scoreFusion: ['rrf'],
+				},
+			},
+			description:
+				'Smoothing constant of reciprocal rank fusion; higher values flatten the gap between top ranks',
+		},
+		{
+			displayName: 'Score Calibration',
+			name: 'scoreCalibration',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+					description: "Return the model's scores unchanged",
+				},
+				{
+					name: 'Min-Max per Call',
+					value: 'minMax',
+					description:
+						'Scale the scores of all documents so the best is 1 and the worst 0, before Top N',
+				},
+				{
+					name: 'Softmax',
+					value: 'softmax',
+					description: 'Turn the scores of all documents into shares that sum to 1, before Top N',
+				},
+				{
+					name: 'Calibration Curve',
+					value: 'curve',
+					description: 'Map raw scores through a per-model, non-decreasing curve',
+				},
+			],
+			default: 'none',
+			description:
+				'Rescale relevance_score before the minimum relevance score is applied, so one threshold works across models. The model score is kept in raw_score.',
+		},
+		{
+			displayName: 'Score Fusion',
+			name: 'scoreFusion',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+					description: 'Order by the rerank score only',
+				},
+				{
+					name: 'Weighted Linear',
+					value: 'weightedLinear',
+					description: 'Weighted sum of the raw rerank and first-stage scores',
+				},
+				{
+					name: 'Reciprocal Rank Fusion',
+					value: 'rrf',
+					description: 'Sum of 1 / (k + rank) from both rankings, ignoring score scales',
+				},
+				{
+					name: 'Min-Max Normalized Blend',
+					value: 'minMax',
+					description: 'Weighted sum after scaling both scores to 0–1 across the candidates',
+				},
+			],
+			default: 'none',
+			description:
+				'Combine the rerank score with the retriever score from the document metadata and order by the fused score. Adds first_stage_score and fused_score metadata.',
+		},
+		{
+			displayName: 'Softmax Temperature',
+			name: 'softmaxTemperature',
+			type: 'number',
+			typeOptions: {
+				minValue: 0.001,
+				numberPrecision: 3,
+			},
+			default: DEFAULT_SOFTMAX_TEMPERATURE,
+			displayOptions: {
+				show: {
+					scoreCalibration: ['softmax'],
+				},
+			},
+			description: 'Lower values give the best documents a larger share',
+		},
+		{
+			displayName: 'Threshold Mode',
+			name: 'thresholdMode',
+			type: 'options',
+			options: [
+				{
+					name: 'Absolute',
+					value: 'absolute',
+					description: 'Compare each score directly with the minimum relevance score',
+				},
+				{
+					name: 'Relative to Top Score',
+					value: 'relativeToTop',
+					description:
+						'Keep documents scoring at least this fraction of the best score in the call',
+				},
+			],
+			default: 'absolute',
+		},
+		{
+			displayName: 'Timeout (Ms)',
+			name: 'timeout',
+			type: 'number',
+			typeOptions: {
+				minValue: 0,
+			},
+			default: DEFAULT_TIMEOUT_MS,
+			description:
+				'How long to wait for each rerank request before it counts as timed out and is retried or failed over. Set to 0 to wait indefinitely.',
+		},
+	],
+};
@@ -0,0 +1,127 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export type ApiFlavor = 'azureV1' | 'cohereV2' | 'cohereNative' | 'generic';
+
+export interface RerankResult {
+	index: number;
+	relevance_score: number;
+	document?: unknown;
+}
+
+export interface ParsedRerankResponse {
+	results: RerankResult[];
+	id?: string;
+	/** Cohere billing unit, one per query and up to 100 documents. */
+	searchUnits?: number;
+	totalTokens?: number;
+}
+
+export interface RerankRequestParameters {
+	query: string;
+	documents: string[];
+	topN: number;
+	modelName: string;
+}
+
+export interface RerankProvider {
+	label: string;
+	/** Used when the node and credential leave the endpoint URL empty. */
+	defaultEndpointUrl?: string;
+	/** Route appended to bare Azure serverless hosts, see `normalizeEndpointUrl`. */
+	rerankPath?: string;
+	buildRequestBody(parameters: RerankRequestParameters): IDataObject;
+	/** Returns results and usage, or `undefined` when the response does not have the expected shape. */
+	parseResponse(response: unknown): ParsedRerankResponse | undefined;
+}
+
+interface CohereRerankResponse {
+	id?: string;
+	results?: RerankResult[];
+	meta?: { billed_units?: { search_units?: number } };
+}
+
+interface GenericRerankResult {
+	index: number;
+	relevance_score?: number;
+	score?: number;
+	document?: unknown;
+}
+
+const parseCohereResponse = (response: unknown): ParsedRerankResponse | undefined => {
+	const payload = response as CohereRerankResponse | undefined;
+	if (!Array.isArray(payload?.results)) return undefined;
+
+	return {
+		results: payload.results,
+		id: payload.id,
+		searchUnits: payload.meta?.billed_units?.search_units,
+	};
+};
+
+const cohereV1: RerankProvider = {
+	label: 'Azure AI Foundry (v1)',
+	rerankPath: '/v1/rerank',
+	buildRequestBody: ({ query, documents, topN, modelName }) => ({
+		query,
+		documents,
+		top_n: topN,
+		model: modelName,
+	}),
+	parseResponse: parseCohereResponse,
+};
+
+// v2 makes `model` mandatory and moves it first; the response keeps the v1 shape.
+const cohereV2: RerankProvider = {
+	label: 'Cohere v2',
+	rerankPath: '/v2/rerank',
+	buildRequestBody: ({ query, documents, topN, modelName }) => ({
+		model: modelName,
+		query,
+		documents,
+		top_n: topN,
+	}),
+	parseResponse: parseCohereResponse,
+};
+
+export const rerankProviders: Record<ApiFlavor, RerankProvider> = {
+	azureV1: cohereV1,
+	cohereV2,
+	cohereNative: {
+		...cohereV2,
+		label: 'Cohere API',
+		defaultEndpointUrl: 'https://api.cohere.com/v2/rerank',
+	},
+	generic: {
+		label: 'Jina/Voyage compatible',
+		// Jina reads `top_n` and Voyage reads `top_k`; each ignores the other.
+		buildRequestBody: ({ query, documents, topN, modelName }) => ({
+			model: modelName,
+			query,
+			documents,
+			top_n: topN,
+			top_k: topN,
+		}),
+		parseResponse: (response) => {
+			const payload = response as
+				| GenericRerankResult[]
+				| {
+						id?: string;
+						results?: GenericRerankResult[];
+						data?: GenericRerankResult[];
+						usage?: { total_tokens?: number };
+				  }
+				| undefined;
+			const results = Array.isArray(payload) ? payload : (payload?.results ?? payload?.data);
+			if (!Array.isArray(results)) return undefined;
+
+			return {
+				results: results.map(({ score, relevance_score, ...rest }) => ({
+					...rest,
+					relevance_score: (relevance_score ?? score) as number,
+				})),
+				id: Array.isArray(payload) ? undefined : payload?.id,
+				totalTokens: Array.isArray(payload) ? undefined : payload?.usage?.total_tokens,
+			};
+		},
+	},
+};
@@ -0,0 +1,152 @@
+import { sleep } from 'n8n-workflow';
+
+export interface RateLimitPolicy {
+	/** Token bucket refill rate; the bucket holds up to one minute of requests. 0 disables it. */
+	requestsPerMinute: number;
+	/** Requests in flight at once. 0 disables the cap. */
+	maxConcurrent: number;
+}
+
+export interface RateLimitSlot {
+	/** Whether the caller had to wait for a concurrency slot or a token. */
+	queued: boolean;
+	/** Time spent queued before the request could start. */
+	waitMs: number;
+	release: () => void;
+}
+
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+	active: number;
+	/** Callers waiting for their turn. */
+	pending: number;
+	/** Resolves once every earlier caller has been granted a slot, keeping the queue FIFO. */
+	tail: Promise<void>;
+	onRelease?: () => void;
+}
+
+const MS_PER_MINUTE = 60_000;
+
+const abortReason = (signal: AbortSignal) =>
+	signal.reason instanceof Error ? signal.reason : new Error('Aborted');
+
+const raceAbort = async (promise: Promise<void>, signal: AbortSignal) =>
+	await new Promise<void>((resolve, reject) => {
+		const onAbort = () => reject(abortReason(signal));
+		if (signal.aborted) {
+			onAbort();
+			return;
+		}
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+
+/**
+ * Token bucket plus concurrency cap per endpoint URL. Callers that exceed either limit are
+ * queued in arrival order instead of rejected; an aborted caller leaves the queue immediately.
+ */
+export class RateLimiter {
+	private readonly buckets = new Map<string, Bucket>();
+
+	async acquire(
+		key: string,
+		policy: RateLimitPolicy,
+		abortSignal?: AbortSignal,
+	): Promise<RateLimitSlot> {
+		const startedAt = Date.now();
+		const bucket = this.getBucket(key, policy);
+
+		let granted = false;
+		let queued = bucket.pending > 0;
+		bucket.pending++;
+		const turn = bucket.tail
+			.then(async () => {
+				if (abortSignal?.aborted) return;
+				if (await this.waitForSlot(bucket, policy, abortSignal)) queued = true;
+				bucket.active++;
+				if (policy.requestsPerMinute > 0) bucket.tokens--;
+				granted = true;
+			})
+			.finally(() => bucket.pending--);
+		bucket.tail = turn.catch(() => {});
+
+		try {
+			await (abortSignal ? raceAbort(turn, abortSignal) : turn);
+		} catch (error) {
+			// The slot may still be granted after the caller gave up; hand it straight back.
+			void turn.then(
+				() => granted && this.release(bucket),
+				() => {},
+			);
+			// Rethrown as is: the abort reason reaches the reranker, which checks the signal and
+			// reports the cancellation as a node error.
+			// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+			throw error;
+		}
+
+		let released = false;
+		return {
+			queued,
+			waitMs: Date.now() - startedAt,
+			release: () => {
+				if (released) return;
+				released = true;
+				this.release(bucket);
+			},
+		};
+	}
+
+	private getBucket(key: string, policy: RateLimitPolicy) {
+		let bucket = this.buckets.get(key);
+		if (!bucket) {
+			bucket = {
+				tokens: policy.requestsPerMinute,
+				updatedAt: Date.now(),
+				active: 0,
+				pending: 0,
+				tail: Promise.resolve(),
+			};
+			this.buckets.set(key, bucket);
+		}
+		return bucket;
+	}
+
+	/** Returns `true` when the caller had to wait. */
+	private async waitForSlot(bucket: Bucket, policy: RateLimitPolicy, abortSignal?: AbortSignal) {
+		let waited = false;
+		while (policy.maxConcurrent > 0 && bucket.active >= policy.maxConcurrent) {
+			waited = true;
+			await new Promise<void>((resolve) => (bucket.onRelease = resolve));
+			if (abortSignal?.aborted) throw abortReason(abortSignal);
+		}
+
+		if (policy.requestsPerMinute <= 0) return waited;
+		this.refill(bucket, policy);
+		if (bucket.tokens < 1) {
+			await sleep(
+				Math.ceil(((1 - bucket.tokens) * MS_PER_MINUTE) / policy.requestsPerMinute),
+				abortSignal,
+			);
+			this.refill(bucket, policy);
+			return true;
+		}
+		return waited;
+	}
+
+	private refill(bucket: Bucket, policy: RateLimitPolicy, now = Date.now()) {
+		const refilled = ((now - bucket.updatedAt) * policy.requestsPerMinute) / MS_PER_MINUTE;
+		bucket.tokens = Math.min(policy.requestsPerMinute, bucket.tokens + refilled);
+		bucket.updatedAt = now;
+	}
+
+	private release(bucket: Bucket) {
+		bucket.active = Math.max(0, bucket.active - 1);
+		const onRelease = bucket.onRelease;
+		bucket.onRelease = undefined;
+		onRelease?.();
+	}
+}
+
+// Shared by every reranker in the process so parallel executions respect one quota per endpoint.
+export const rateLimiter = new RateLimiter();
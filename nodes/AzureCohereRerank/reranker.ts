@@ -0,0 +1,1015 @@
+import {
+	ApplicationError,
+	NodeOperationError,
+	sleep,
+	type IDataObject,
+	type IHttpRequestOptions,
+	type INode,
+	type ISupplyDataFunctions,
+} from 'n8n-workflow';
+
+import { getCacheKey, type RerankCacheOptions } from './cache';
+import { rankWithBm25 } from './bm25';
+import { calibrateScores, type CalibrationSettings } from './calibration';
+import { splitIntoChunks, type ChunkSpan } from './chunking';
+import { DIVERSITY_POOL_FACTOR, getShingles, removeNearDuplicates, selectByMmr } from './diversity';
+import {
+	circuitBreaker,
+	DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS,
+	DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+	type CircuitBreakerPolicy,
+} from './failover';
+import { DEFAULT_RRF_K, fuseScores, type FusionSettings } from './fusion';
+import {
+	formatFieldValue,
+	getErrorCode,
+	getErrorStatus,
+	getPath,
+	isTimeoutError,
+	mapWithConcurrency,
+	type HttpErrorLike,
+} from './GenericFunctions';
+import {
+	applyInputLimits,
+	type GuardedDocument,
+	type GuardedInput,
+	type InputLimit,
+	type InputLimitAction,
+	type InputLimits,
+} from './inputLimits';
+import { rerankProviders, type RerankProvider, type RerankResult } from './providers';
+import { rateLimiter, type RateLimitPolicy } from './rateLimiter';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, type RetryPolicy } from './retry';
+import { QUERY_PLACEHOLDER, renderTemplate } from './templates';
+
+export type DocumentInput =
+	| string
+	| {
+			pageContent?: string;
+			metadata?: Record<string, unknown>;
+			[key: string]: unknown;
+	  };
+
+export type RerankRequestFunction = (options: IHttpRequestOptions) => Promise<unknown>;
+
+export interface RerankEndpoint {
+	endpointUrl: string;
+	headers?: Record<string, string>;
+	request: RerankRequestFunction;
+}
+
+export type RerankBackend = 'remote' | 'localBm25';
+
+export interface AzureRerankOptions {
+	/** Node the reranker belongs to, used for the errors it reports. */
+	node: INode;
+	/** `localBm25` scores in-process and never uses the endpoint, request or retry settings. */
+	backend?: RerankBackend;
+	endpointUrl: string;
+	headers?: Record<string, string>;
+	modelName: string;
+	topN: number;
+	provider?: RerankProvider;
+	batchSize?: number;
+	maxConcurrency?: number;
+	retry?: RetryPolicy;
+	/** Per request, in milliseconds; 0 or unset waits for as long as the HTTP client does. */
+	timeoutMs?: number;
+	/** The execution's cancel signal; aborting it cancels in-flight requests and retry waits. */
+	abortSignal?: AbortSignal;
+	minRelevanceScore?: number;
+	thresholdMode?: 'absolute' | 'relativeToTop';
+	thresholdFallback?: 'empty' | 'bestDocument';
+	rankFields?: string[];
+	/** Wraps every query sent to the model; contains the `{{query}}` placeholder. */
+	queryTemplate?: string;
+	/** Renders each document from its `pageContent` and metadata; takes precedence over rank fields. */
+	documentTemplate?: string;
+	maxTokensPerDocument?: number;
+	chunkOverlap?: number;
+	chunkAggregation?: 'max' | 'meanTopK';
+	chunkTopK?: number;
+	cache?: RerankCacheOptions;
+	/** Blends the rerank score with a first-stage score read from `metadata[scoreKey]`. */
+	fusion?: FusionSettings & { scoreKey: string };
+	/** Pre-flight guards applied before anything is sent. */
+	inputLimits?: Pick<InputLimits, 'maxDocuments' | 'maxCharacters'> & {
+		maxPayload?: InputLimit & { action: Exclude<InputLimitAction, 'dropDocument'> };
+	};
+	/** Rescales the returned scores before the threshold is applied. */
+	calibration?: CalibrationSettings;
+	/** Jaccard similarity at or above which a lower ranked document counts as a duplicate. */
+	duplicateThreshold?: number;
+	/** Enables maximal-marginal-relevance selection of the top N when set. */
+	mmrLambda?: number;
+	/** Splits each incoming query into several queries that are ranked separately. */
+	queryDelimiter?: string;
+	additionalQueries?: string[];
+	queryAggregation?: 'max' | 'mean' | 'rrf';
+	/** `throw` fails the run; the passthrough modes return documents in their original order. */
+	onError?: 'throw' | 'passthroughTopN' | 'passthroughAll' | 'localBm25';
+	/** Omitted for the local backend. */
+	request?: RerankRequestFunction;
+	/** Shared per endpoint URL by every reranker in the process. */
+	rateLimit?: RateLimitPolicy;
+	/** Tried in order after the primary endpoint when it times out, throttles or fails with 5xx. */
+	fallbacks?: RerankEndpoint[];
+	circuitBreaker?: CircuitBreakerPolicy;
+	logger?: ISupplyDataFunctions['logger'];
+}
+
+/** Billing information summed over every request one rerank call needed. */
+export interface RerankUsage {
+	requestIds: string[];
+	searchUnits?: number;
+	totalTokens?: number;
+}
+
+/**
+ * The text `chunk_span` offsets refer to: the page content, or the text sent to the model when
+ * rank fields, a document template or truncation made it differ from the page content.
+ */
+export type ChunkSpanSource = 'pageContent' | 'sentText';
+
+/** Set instead of a meaningful `relevance_score` when reranking failed and documents pass through. */
+export type RankedResult = RerankResult & {
+	chunkSpan?: ChunkSpan & { source?: ChunkSpanSource };
+	cached?: boolean;
+	usage?: RerankUsage;
+	skipReason?: string;
+	/** Set when the remote rerank failed and the local BM25 scores were used instead. */
+	fallbackReason?: string;
+	firstStageScore?: number;
+	/** `relevance_score` before calibration, set when calibration is enabled. */
+	rawScore?: number;
+	fusedScore?: number;
+	/** The query that scored the document highest when ranking against several queries. */
+	matchedQuery?: string;
+};
+
+/** Sums the distinct usage records attached to `results`, `undefined` when none reported any. */
+export const combineUsage = (results: RankedResult[]): RerankUsage | undefined => {
+	const usages = Array.from(new Set(results.map((result) => result.usage))).filter(
+		(usage): usage is RerankUsage => usage !== undefined,
+	);
+	if (usages.length <= 1) return usages[0];
+
+	const sum = (key: 'searchUnits' | 'totalTokens') =>
+		usages.some((usage) => usage[key] !== undefined)
+			? usages.reduce((total, usage) => total + (usage[key] ?? 0), 0)
+			: undefined;
+	const searchUnits = sum('searchUnits');
+	const totalTokens = sum('totalTokens');
+	return {
+		requestIds: usages.flatMap((usage) => usage.requestIds),
+		...(searchUnits !== undefined ? { searchUnits } : {}),
+		...(totalTokens !== undefined ? { totalTokens } : {}),
+	};
+};
+
+// Azure AI Foundry rejects requests above 1000 documents, so never batch beyond that.
+export const MAX_BATCH_SIZE = 1000;
+
+// Reranking 1000 documents takes a few seconds, so a minute only trips on a hung endpoint.
+export const DEFAULT_TIMEOUT_MS = 60_000;
+
+const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+	failureThreshold: DEFAULT_CIRCUIT_BREAKER_THRESHOLD,
+	cooldownMs: DEFAULT_CIRCUIT_BREAKER_COOLDOWN_SECONDS * 1000,
+};
+
+export class AzureCohereReranker {
+	constructor(private readonly options: AzureRerankOptions) {}
+
+	async compressDocuments(documents: DocumentInput[], query: string) {
+		const ranked = await this.rerank(documents, query);
+
+		return ranked.map((result, position) => {
+			const original = documents[result.index];
+			if (original === undefined) {
+				throw new ApplicationError(
+					`Received index ${result.index} not present in provided documents`,
+				);
+			}
+
+			const base =
+				typeof original === 'string'
+					? { pageContent: original, metadata: {} as Record<string, unknown> }
+					: {
+							...original,
+							metadata: {
+								...(original.metadata ?? {}),
+							},
+						};
+
+			if (result.skipReason !== undefined) {
+				return {
+					...base,
+					metadata: {
+						...base.metadata,
+						rerank_skipped: true,
+						rerank_skip_reason: result.skipReason,
+						rerank_rank: position + 1,
+						original_index: result.index,
+					},
+				};
+			}
+
+			return {
+				...base,
+				metadata: {
+					...base.metadata,
+					relevance_score: result.relevance_score,
+					raw_score: result.rawScore ?? result.relevance_score,
+					rerank_rank: position + 1,
+					original_index: result.index,
+					...(result.fallbackReason !== undefined
+						? { rerank_fallback: true, rerank_fallback_reason: result.fallbackReason }
+						: {}),
+					...(result.fusedScore !== undefined
+						? { first_stage_score: result.firstStageScore, fused_score: result.fusedScore }
+						: {}),
+					...(result.matchedQuery !== undefined ? { matched_query: result.matchedQuery } : {}),
+					...(result.chunkSpan ? { chunk_span: result.chunkSpan } : {}),
+					...(result.cached !== undefined ? { rerank_cache_hit: result.cached } : {}),
+					...(result.usage
+						? {
+								rerank_usage: {
+									request_ids: result.usage.requestIds,
+									...(result.usage.searchUnits !== undefined
+										? { search_units: result.usage.searchUnits }
+										: {}),
+									...(result.usage.totalTokens !== undefined
+										? { total_tokens: result.usage.totalTokens }
+										: {}),
+								},
+							}
+						: {}),
+				},
+			};
+		});
+	}
+
+	/**
+	 * Ranks documents against the query and returns the top N results with indices into
+	 * `documents`, after the relevance threshold has been applied. With a passthrough `onError`
+	 * a failure returns the documents in their original order, flagged with the reason; with
+	 * `localBm25` they are ranked in-process instead.
+	 */
+	async rerank(documents: DocumentInput[], query: string | string[]): Promise<RankedResult[]> {
+		const { topN, onError = 'throw', node, abortSignal, logger } = this.options;
+		// Limit violations are configuration or data errors, so On Error does not mask them.
+		const guarded = this.guardInput(documents ?? [], query);
+
+		try {
+			return await this.rerankOrThrow(documents, query, guarded);
+		} catch (error) {
+			// A cancelled execution must stop rather than continue with unranked documents.
+			// An existing NodeOperationError, such as a timeout or cancellation, is passed through
+			// unchanged. Any other error, including a NodeApiError such as an Entra ID token
+			// failure, is wrapped in a new NodeOperationError.
+			if (onError === 'throw' || abortSignal?.aborted) {
+				throw new NodeOperationError(node, error as Error);
+			}
+
+			const skipReason = (error as Error)?.message ?? 'Unknown error';
+			if (onError === 'localBm25') {
+				logger?.warn?.(`Azure Cohere Rerank failed, ranking documents with BM25: ${skipReason}`);
+				return this.applyThreshold(
+					rankWithBm25(
+						Array.isArray(query) ? query.join(' ') : query,
+						guarded.map((document) => document.text),
+					)
+						.slice(0, topN)
+						.map((result) => ({
+							...result,
+							index: guarded[result.index].index,
+							fallbackReason: skipReason,
+						})),
+				);
+			}
+
+			logger?.warn?.(
+				`Azure Cohere Rerank failed, passing documents through in their original order: ${skipReason}`,
+			);
+			// Documents the input limits left out stay out, as they do for the BM25 fallback.
+			const passthrough = guarded.map(({ index }) => ({
+				index,
+				relevance_score: 0,
+				skipReason,
+			}));
+			return onError === 'passthroughTopN' ? passthrough.slice(0, topN) : passthrough;
+		}
+	}
+
+	private async rerankOrThrow(
+		documents: DocumentInput[],
+		query: string | string[],
+		guarded: GuardedDocument[],
+	): Promise<RankedResult[]> {
+		const { topN, fusion, duplicateThreshold, mmrLambda, calibration, logger } = this.options;
+
+		if (!documents || documents.length === 0 || guarded.length === 0) {
+			return [];
+		}
+
+		const texts = guarded.map((document) => document.text);
+		const queries = this.expandQueries(query);
+		// Fusion and multi-query aggregation can promote any document, so every candidate needs a
+		// score. Min-max and softmax normalize over every score so that Top N does not change a
+		// document's calibrated score. The diversity pass only needs its candidate pool.
+		const diversify = duplicateThreshold !== undefined || mmrLambda !== undefined;
+		const normalizeAll = calibration !== undefined && calibration.method !== 'curve';
+		let requestTopN = topN;
+		if (fusion || normalizeAll || queries.length > 1) {
+			requestTopN = texts.length;
+		} else if (diversify) {
+			requestTopN = Math.min(texts.length, topN * DIVERSITY_POOL_FACTOR);
+		}
+
+		let ranked: RankedResult[];
+		if (queries.length > 1) {
+			logger?.debug?.(`Azure Cohere Rerank ranking against ${queries.length} queries`);
+			const perQuery: RankedResult[][] = [];
+			for (const current of queries) {
+				perQuery.push(
+					await this.scoreDocuments(texts, this.applyQueryTemplate(current), requestTopN),
+				);
+			}
+			ranked = this.aggregateQueries(queries, perQuery);
+		} else {
+			ranked = await this.scoreDocuments(
+				texts,
+				this.applyQueryTemplate(queries[0] ?? ''),
+				requestTopN,
+			);
+		}
+		// Scores refer to the guarded list; map them back to positions in `documents`.
+		ranked = ranked.map((result) => {
+			const document = guarded[result.index];
+			if (!document) {
+				throw new ApplicationError(
+					`Received index ${result.index} not present in the ${guarded.length} documents sent`,
+				);
+			}
+			if (!result.chunkSpan) return { ...result, index: document.index };
+			const input = documents[document.index];
+			const pageContent = typeof input === 'string' ? input : input?.pageContent;
+			const source: ChunkSpanSource = document.text === pageContent ? 'pageContent' : 'sentText';
+			return { ...result, index: document.index, chunkSpan: { ...result.chunkSpan, source } };
+		});
+
+		if (fusion) {
+			ranked = this.fuse(documents, ranked, fusion);
+		}
+		ranked = this.calibrate(ranked);
+		if (diversify) {
+			ranked = this.diversify(documents, guarded, ranked);
+		}
+
+		return this.applyThreshold(ranked.slice(0, topN));
+	}
+
+	/**
+	 * Applies the input limits to the normalized documents. The payload budget is measured
+	 * against the request body of the longest query.
+	 */
+	private guardInput(documents: DocumentInput[], query: string | string[]): GuardedDocument[] {
+		const {
+			backend = 'remote',
+			inputLimits,
+			provider = rerankProviders.azureV1,
+			modelName,
+			topN,
+			batchSize = MAX_BATCH_SIZE,
+			maxTokensPerDocument = 0,
+			chunkOverlap = 50,
+			node,
+			logger,
+		} = this.options;
+		const texts = documents.map((doc) => this.normalizeDocument(doc));
+		if (!inputLimits) return texts.map((text, index) => ({ index, text }));
+
+		const baseBytes = Math.max(
+			...this.expandQueries(query).map((current) =>
+				Buffer.byteLength(
+					JSON.stringify(
+						provider.buildRequestBody({
+							query: this.applyQueryTemplate(current),
+							documents: [],
+							topN,
+							modelName,
+						}),
+					),
+				),
+			),
+		);
+
+		let guarded: GuardedInput;
+		try {
+			guarded = applyInputLimits(texts, {
+				...inputLimits,
+				// Nothing is sent for the local backend.
+				maxPayload:
+					backend === 'remote' && inputLimits.maxPayload
+						? {
+								...inputLimits.maxPayload,
+								baseBytes,
+								batchSize: Math.min(Math.max(1, batchSize), MAX_BATCH_SIZE),
+								// Chunked documents are sent chunk by chunk, so the budget applies per chunk batch.
+								split:
+									maxTokensPerDocument > 0
+										? (text: string) =>
+												splitIntoChunks(text, maxTokensPerDocument, chunkOverlap).map(
+													(chunk) => chunk.text,
+												)
+										: undefined,
+							}
+						: undefined,
+			});
+		} catch (error) {
+			throw new NodeOperationError(node, error as Error, {
+				description: 'Raise the limit in the node options or choose an action other than Fail',
+			});
+		}
+
+		if (guarded.dropped > 0 || guarded.truncated > 0) {
+			logger?.warn?.(
+				`Azure Cohere Rerank input limits dropped ${guarded.dropped} and truncated ${guarded.truncated} of ${texts.length} documents`,
+			);
+		}
+		return guarded.documents;
+	}
+
+	/** Splits the query on the delimiter and adds the configured extra queries, without repeats. */
+	private expandQueries(query: string | string[]) {
+		const { queryDelimiter, additionalQueries = [] } = this.options;
+		const base = Array.isArray(query) ? query.map(String) : [query];
+		const split = queryDelimiter ? base.flatMap((entry) => entry.split(queryDelimiter)) : base;
+		const queries = Array.from(
+			new Set([...split, ...additionalQueries].map((entry) => entry.trim()).filter(Boolean)),
+		);
+		// Keep an empty query as-is so the endpoint reports it, as it did before multi-query.
+		return queries.length > 0 ? queries : [base.join(' ')];
+	}
+
+	/** Renders the query template, leaving queries unchanged when none is configured. */
+	private applyQueryTemplate(query: string) {
+		const { queryTemplate } = this.options;
+		if (!queryTemplate) return query;
+		return renderTemplate(queryTemplate, (path) =>
+			path === QUERY_PLACEHOLDER ? query : undefined,
+		).trim();
+	}
+
+	/**
+	 * Combines per-query results into one ordering. `relevance_score` becomes the aggregated
+	 * score and `matchedQuery` the query that scored the document highest.
+	 */
+	private aggregateQueries(queries: string[], perQuery: RankedResult[][]): RankedResult[] {
+		const { queryAggregation = 'max' } = this.options;
+		const byIndex = new Map<number, { best: RankedResult; matchedQuery: string; total: number }>();
+
+		perQuery.forEach((results, position) => {
+			results.forEach((result, rank) => {
+				const contribution =
+					queryAggregation === 'rrf' ? 1 / (DEFAULT_RRF_K + rank + 1) : result.relevance_score;
+				const entry = byIndex.get(result.index);
+				if (!entry) {
+					byIndex.set(result.index, {
+						best: result,
+						matchedQuery: queries[position],
+						total: contribution,
+					});
+					return;
+				}
+				entry.total += contribution;
+				if (result.relevance_score > entry.best.relevance_score) {
+					entry.best = result;
+					entry.matchedQuery = queries[position];
+				}
+			});
+		});
+
+		const usage = combineUsage(perQuery.flat());
+		return Array.from(byIndex.values())
+			.map(({ best, matchedQuery, total }) => ({
+				...best,
+				...(usage ? { usage } : {}),
+				relevance_score:
+					queryAggregation === 'max'
+						? best.relevance_score
+						: queryAggregation === 'mean'
+							? total / queries.length
+							: total,
+				matchedQuery,
+			}))
+			.sort((a, b) => b.relevance_score - a.relevance_score);
+	}
+
+	/** Scores documents against a single query, serving and filling the cache when enabled. */
+	private async scoreDocuments(
+		normalizedDocuments: string[],
+		query: string,
+		requestTopN: number,
+	): Promise<RankedResult[]> {
+		const {
+			backend = 'remote',
+			endpointUrl,
+			modelName,
+			provider,
+			maxTokensPerDocument = 0,
+			chunkOverlap,
+			chunkAggregation,
+			chunkTopK,
+			cache,
+			logger,
+		} = this.options;
+
+		const cacheKey = cache
+			? getCacheKey({
+					endpointUrl,
+					modelName,
+					query,
+					documents: normalizedDocuments,
+					settings: [
+						backend,
+						provider?.label,
+						requestTopN,
+						maxTokensPerDocument,
+						chunkOverlap,
+						chunkAggregation,
+						chunkTopK,
+					],
+				})
+			: undefined;
+		const cached = cacheKey ? cache?.store.get(cacheKey) : undefined;
+		if (cached) {
+			logger?.debug?.('Azure Cohere Rerank served scores from cache');
+			return cached.results.map((result) => ({ ...result, cached: true }));
+		}
+
+		const usage: RerankUsage = { requestIds: [] };
+		let ranked: RankedResult[] =
+			maxTokensPerDocument > 0
+				? await this.rerankChunked(normalizedDocuments, query, usage)
+				: await this.rerankTexts(normalizedDocuments, query, requestTopN, usage);
+
+		if (cache && cacheKey) {
+			cache.store.set(cacheKey, { results: ranked, expiresAt: Date.now() + cache.ttlMs });
+			ranked = ranked.map((result) => ({ ...result, cached: false }));
+		}
+
+		// Services without billing metadata (most Jina/Voyage style hosts) report nothing.
+		if (
+			usage.requestIds.length > 0 ||
+			usage.searchUnits !== undefined ||
+			usage.totalTokens !== undefined
+		) {
+			logger?.info?.('Azure Cohere Rerank usage', { ...usage, modelName });
+			ranked = ranked.map((result) => ({ ...result, usage }));
+		}
+		return ranked;
+	}
+
+	/**
+	 * Removes near-duplicate page contents, keeping the better ranked copy, then optionally picks
+	 * the top N by maximal marginal relevance so the slots go to distinct information. Only the
+	 * best Top N × `DIVERSITY_POOL_FACTOR` results are considered.
+	 */
+	private diversify(
+		documents: DocumentInput[],
+		guarded: GuardedDocument[],
+		ranked: RankedResult[],
+	): RankedResult[] {
+		const { topN, duplicateThreshold, mmrLambda, logger } = this.options;
+		const sentTexts = new Map(guarded.map((document) => [document.index, document.text]));
+		const getText = (result: RankedResult) => {
+			const document = documents[result.index];
+			return typeof document === 'string'
+				? document
+				: (document?.pageContent ?? sentTexts.get(result.index) ?? '');
+		};
+
+		const pool = ranked.slice(0, topN * DIVERSITY_POOL_FACTOR);
+		const shingles = new Map(pool.map((result) => [result, getShingles(getText(result))]));
+		const getResultShingles = (result: RankedResult) => shingles.get(result) ?? new Set<string>();
+
+		let candidates = pool;
+		if (duplicateThreshold !== undefined) {
+			candidates = removeNearDuplicates(pool, getResultShingles, duplicateThreshold);
+			if (candidates.length < pool.length) {
+				logger?.debug?.(
+					`Azure Cohere Rerank removed ${pool.length - candidates.length} near-duplicate documents`,
+				);
+			}
+		}
+
+		if (mmrLambda === undefined) return candidates;
+		// Model or fused scores, so calibration does not change the relevance/diversity balance.
+		return selectByMmr(
+			candidates,
+			(result) => result.fusedScore ?? result.rawScore ?? result.relevance_score,
+			getResultShingles,
+			mmrLambda,
+			topN,
+		);
+	}
+
+	/** Adds first-stage and fused scores and reorders the results by the fused score. */
+	private fuse(
+		documents: DocumentInput[],
+		ranked: RankedResult[],
+		fusion: FusionSettings & { scoreKey: string },
+	): RankedResult[] {
+		const candidates = ranked.map((result) => {
+			const document = documents[result.index];
+			const value =
+				typeof document === 'string' ? undefined : getPath(document?.metadata, fusion.scoreKey);
+			const firstStageScore =
+				typeof value === 'number' || typeof value === 'string' ? Number(value) : Number.NaN;
+			return {
+				...result,
+				firstStageScore: Number.isFinite(firstStageScore) ? firstStageScore : undefined,
+			};
+		});
+
+		const fused = fuseScores(candidates, fusion);
+		return candidates
+			.map((candidate, position) => ({ ...candidate, fusedScore: fused[position] }))
+			.sort((a, b) => b.fusedScore - a.fusedScore);
+	}
+
+	/**
+	 * Reranks plain texts, splitting them into batches the endpoint accepts and merging the
+	 * per-batch results into one list sorted by relevance with indices relative to `texts`.
+	 * The local backend is never batched, as BM25 takes its IDF and average document length
+	 * from every text it scores.
+	 */
+	private async rerankTexts(
+		texts: string[],
+		query: string,
+		topN: number,
+		usage: RerankUsage,
+	): Promise<RankedResult[]> {
+		const {
+			backend = 'remote',
+			batchSize = MAX_BATCH_SIZE,
+			maxConcurrency = 1,
+			logger,
+		} = this.options;
+
+		if (backend === 'localBm25') {
+			return rankWithBm25(query, texts).slice(0, topN);
+		}
+
+		const effectiveBatchSize = Math.min(Math.max(1, batchSize), MAX_BATCH_SIZE);
+		const batches: Array<{ offset: number; documents: string[] }> = [];
+		for (let offset = 0; offset < texts.length; offset += effectiveBatchSize) {
+			batches.push({
+				offset,
+				documents: texts.slice(offset, offset + effectiveBatchSize),
+			});
+		}
+
+		if (batches.length > 1) {
+			logger?.debug?.(
+				`Azure Cohere Rerank splitting ${texts.length} documents into ${batches.length} batches`,
+			);
+		}
+
+		const batchResults = await mapWithConcurrency(batches, maxConcurrency, async (batch) =>
+			(await this.rerankBatch(batch.documents, query, topN, usage)).map((result) => ({
+				...result,
+				index: result.index + batch.offset,
+			})),
+		);
+
+		// Each batch returns its own top N, which always contains the global top N for that slice.
+		return batchResults.flat().sort((a, b) => b.relevance_score - a.relevance_score);
+	}
+
+	/**
+	 * Scores every overlapping chunk of each document and folds the chunk scores back into a
+	 * single score per document, remembering which chunk matched best.
+	 */
+	private async rerankChunked(
+		texts: string[],
+		query: string,
+		usage: RerankUsage,
+	): Promise<RankedResult[]> {
+		const {
+			maxTokensPerDocument = 0,
+			chunkOverlap = 50,
+			chunkAggregation = 'max',
+			chunkTopK = 3,
+			logger,
+		} = this.options;
+
+		const chunks = texts.flatMap((text, documentIndex) =>
+			splitIntoChunks(text, maxTokensPerDocument, chunkOverlap).map((chunk) => ({
+				...chunk,
+				documentIndex,
+			})),
+		);
+
+		if (chunks.length > texts.length) {
+			logger?.debug?.(
+				`Azure Cohere Rerank split ${texts.length} documents into ${chunks.length} chunks`,
+			);
+		}
+
+		const chunkResults = await this.rerankTexts(
+			chunks.map((chunk) => chunk.text),
+			query,
+			chunks.length,
+			usage,
+		);
+
+		const scoresByDocument = new Map<number, Array<{ score: number; span: ChunkSpan }>>();
+		for (const result of chunkResults) {
+			const chunk = chunks[result.index];
+			const scores = scoresByDocument.get(chunk.documentIndex) ?? [];
+			scores.push({ score: result.relevance_score, span: { start: chunk.start, end: chunk.end } });
+			scoresByDocument.set(chunk.documentIndex, scores);
+		}
+
+		return Array.from(scoresByDocument, ([index, scores]) => {
+			const sorted = scores.sort((a, b) => b.score - a.score);
+			const considered = sorted.slice(0, Math.max(1, chunkTopK));
+			const relevance_score =
+				chunkAggregation === 'meanTopK'
+					? considered.reduce((sum, entry) => sum + entry.score, 0) / considered.length
+					: sorted[0].score;
+			return { index, relevance_score, chunkSpan: sorted[0].span };
+		}).sort((a, b) => b.relevance_score - a.relevance_score);
+	}
+
+	/**
+	 * Turns a document into the text sent to the rerank model. With rank fields configured,
+	 * object documents are rendered as `key: value` lines, the YAML-style format Cohere recommends
+	 * for semi-structured data, so unrelated metadata does not influence the score. A document
+	 * template, which excludes rank fields, renders both kinds, with string documents available as
+	 * `{{pageContent}}`.
+	 */
+	private normalizeDocument(doc: DocumentInput) {
+		const { rankFields = [], documentTemplate } = this.options;
+
+		if (documentTemplate) {
+			const source = typeof doc === 'string' ? { pageContent: doc, metadata: {} } : doc;
+			return renderTemplate(documentTemplate, (path) => {
+				const value = getPath(source, path) ?? getPath(source.metadata, path);
+				return value === undefined || value === null ? undefined : formatFieldValue(value);
+			});
+		}
+
+		if (typeof doc === 'string') return doc;
+
+		if (rankFields.length > 0) {
+			const lines = rankFields.flatMap((field) => {
+				const value = getPath(doc, field) ?? getPath(doc.metadata, field);
+				if (value === undefined || value === null || value === '') return [];
+				return [`${field}: ${formatFieldValue(value)}`];
+			});
+			if (lines.length > 0) return lines.join('\n');
+		}
+
+		if (doc.pageContent) return doc.pageContent;
+		return JSON.stringify(doc);
+	}
+
+	/** Keeps the order: every calibration is monotonic, curves are checked to never decrease. */
+	private calibrate(results: RankedResult[]): RankedResult[] {
+		const { calibration } = this.options;
+		if (!calibration) return results;
+
+		const scores = calibrateScores(
+			results.map((result) => result.relevance_score),
+			calibration,
+		);
+		return results.map((result, position) => ({
+			...result,
+			rawScore: result.relevance_score,
+			relevance_score: scores[position],
+		}));
+	}
+
+	private applyThreshold(results: RankedResult[]) {
+		const {
+			minRelevanceScore = 0,
+			thresholdMode = 'absolute',
+			thresholdFallback = 'empty',
+			logger,
+		} = this.options;
+
+		if (!minRelevanceScore || results.length === 0) {
+			return results;
+		}
+
+		// Score fusion may reorder results, so the top rerank score is not necessarily first.
+		const cutoff =
+			thresholdMode === 'relativeToTop'
+				? Math.max(...results.map((result) => result.relevance_score)) * minRelevanceScore
+				: minRelevanceScore;
+		const kept = results.filter((result) => result.relevance_score >= cutoff);
+
+		if (kept.length < results.length) {
+			logger?.debug?.(
+				`Azure Cohere Rerank dropped ${results.length - kept.length} documents below relevance score ${cutoff}`,
+			);
+		}
+
+		if (kept.length === 0 && thresholdFallback === 'bestDocument') {
+			logger?.debug?.(
+				'Azure Cohere Rerank filtered out every document, falling back to the best match',
+			);
+			return results.slice(0, 1);
+		}
+
+		return kept;
+	}
+
+	/** Waits for a slot of the endpoint's process-wide rate limit, when configured, then sends. */
+	private async sendRequest(endpoint: RerankEndpoint, options: IHttpRequestOptions) {
+		const { rateLimit, abortSignal, logger } = this.options;
+		if (!rateLimit) return await endpoint.request(options);
+
+		const slot = await rateLimiter.acquire(endpoint.endpointUrl, rateLimit, abortSignal);
+		if (slot.queued) {
+			logger?.info?.(
+				`Azure Cohere Rerank waited ${slot.waitMs}ms in the rate limit queue for ${endpoint.endpointUrl}`,
+			);
+		}
+		try {
+			return await endpoint.request(options);
+		} finally {
+			slot.release();
+		}
+	}
+
+	/**
+	 * Sends one request through the endpoint chain, moving on to the next endpoint on retryable
+	 * failures. Endpoints with an open circuit are skipped unless every endpoint is open, in which
+	 * case the whole chain is tried rather than failing without a request.
+	 */
+	private async requestWithFailover(
+		chain: RerankEndpoint[],
+		body: IDataObject,
+		breakerPolicy: CircuitBreakerPolicy,
+	): Promise<unknown> {
+		const { timeoutMs, abortSignal, logger } = this.options;
+		const useBreaker = chain.length > 1;
+		const available = useBreaker
+			? chain.filter((endpoint) => !circuitBreaker.isOpen(endpoint.endpointUrl))
+			: chain;
+		const candidates = available.length > 0 ? available : chain;
+
+		for (const [position, endpoint] of candidates.entries()) {
+			try {
+				const response = await this.sendRequest(endpoint, {
+					method: 'POST',
+					url: endpoint.endpointUrl,
+					body,
+					headers: {
+						'Content-Type': 'application/json',
+						...(endpoint.headers ?? {}),
+					},
+					...(timeoutMs ? { timeout: timeoutMs } : {}),
+					...(abortSignal ? { abortSignal } : {}),
+				});
+				if (useBreaker) {
+					circuitBreaker.recordSuccess(endpoint.endpointUrl);
+					logger?.info?.(`Azure Cohere Rerank request served by ${endpoint.endpointUrl}`);
+				}
+				return response;
+			} catch (error: unknown) {
+				const next = candidates[position + 1];
+				const failOver = useBreaker && isRetryableError(error) && !abortSignal?.aborted;
+				if (failOver && circuitBreaker.recordFailure(endpoint.endpointUrl, breakerPolicy)) {
+					logger?.warn?.(
+						`Azure Cohere Rerank skipping ${endpoint.endpointUrl} for ${breakerPolicy.cooldownMs}ms after repeated failures`,
+					);
+				}
+				// Rethrown as is because rerankBatch's retry policy needs the status and headers;
+				// rerankBatch wraps it in a node error once it gives up.
+				// eslint-disable-next-line @n8n/community-nodes/require-node-api-error
+				if (!failOver || !next) throw error;
+
+				const status = getErrorStatus(error) ?? getErrorCode(error) ?? 'error';
+				logger?.warn?.(
+					`Azure Cohere Rerank endpoint ${endpoint.endpointUrl} failed (${status}), failing over to ${next.endpointUrl}`,
+				);
+			}
+		}
+
+		throw new ApplicationError('Azure Cohere Rerank has no endpoint to send the request to');
+	}
+
+	private async rerankBatch(
+		documents: string[],
+		query: string,
+		topN: number,
+		usage: RerankUsage,
+	): Promise<RerankResult[]> {
+		const {
+			endpointUrl,
+			headers,
+			modelName,
+			provider = rerankProviders.azureV1,
+			retry,
+			request,
+			fallbacks = [],
+			circuitBreaker: breakerPolicy = DEFAULT_CIRCUIT_BREAKER_POLICY,
+			node,
+			timeoutMs,
+			abortSignal,
+			logger,
+		} = this.options;
+
+		if (!request) {
+			throw new ApplicationError('Azure Cohere Rerank has no endpoint configured');
+		}
+
+		const body = provider.buildRequestBody({ query, documents, topN, modelName });
+
+		const policy = retry ?? DEFAULT_RETRY_POLICY;
+		const maxAttempts = Math.max(1, policy.maxAttempts);
+		const chain: RerankEndpoint[] = [{ endpointUrl, headers, request }, ...fallbacks];
+
+		const cancelled = () =>
+			new NodeOperationError(node, 'Azure Cohere Rerank request was cancelled', {
+				description: 'The workflow execution was cancelled while reranking.',
+			});
+
+		let response: unknown;
+		for (let attempt = 1; ; attempt++) {
+			if (abortSignal?.aborted) throw cancelled();
+			try {
+				response = await this.requestWithFailover(chain, body, breakerPolicy);
+				break;
+			} catch (error: unknown) {
+				if (abortSignal?.aborted) throw cancelled();
+
+				const status = getErrorStatus(error) ?? '';
+				const message = (error as HttpErrorLike)?.message ?? 'Unknown error';
+
+				if (attempt < maxAttempts && isRetryableError(error)) {
+					const delay = getRetryDelay(error, attempt, policy);
+					logger?.warn?.(
+						`Azure Cohere Rerank attempt ${attempt}/${maxAttempts} failed${status ? ` (${status})` : ''}: ${message}. Retrying in ${delay}ms`,
+					);
+					await sleep(delay, abortSignal).catch(() => {
+						throw cancelled();
+					});
+					continue;
+				}
+
+				logger?.error?.(`Azure Cohere Rerank request failed: ${message}`);
+				if (isTimeoutError(error)) {
+					throw new NodeOperationError(
+						node,
+						`Azure Cohere Rerank request timed out${timeoutMs ? ` after ${timeoutMs}ms` : ''}`,
+						{
+							description:
+								'The rerank endpoint did not answer in time. Check that the deployment is healthy, or raise the Timeout option for large document sets.',
+						},
+					);
+				}
+				throw new ApplicationError(
+					`Azure Cohere Rerank request failed${status ? ` (${status})` : ''}: ${message}`,
+				);
+			}
+		}
+
+		const parsed = provider.parseResponse(response);
+		if (!parsed) {
+			throw new ApplicationError(
+				`Unexpected response shape from Azure Cohere Rerank (missing results for ${provider.label} API flavor)`,
+			);
+		}
+
+		const { results } = parsed;
+		if (parsed.id) usage.requestIds.push(parsed.id);
+		if (parsed.searchUnits !== undefined) {
+			usage.searchUnits = (usage.searchUnits ?? 0) + parsed.searchUnits;
+		}
+		if (parsed.totalTokens !== undefined) {
+			usage.totalTokens = (usage.totalTokens ?? 0) + parsed.totalTokens;
+		}
+
+		for (const result of results) {
+			if (typeof result.index !== 'number') {
+				throw new ApplicationError(
+					'Unexpected response shape from Azure Cohere Rerank (missing index)',
+				);
+			}
+			if (result.index >= documents.length) {
+				throw new ApplicationError(
+					`Received index ${result.index} not present in provided documents`,
+				);
+			}
+		}
+
+		return results;
+	}
+}
@@ -0,0 +1,56 @@
+import { getErrorCode, getErrorHeader, getErrorStatus } from './GenericFunctions';
+
+export interface RetryPolicy {
+	maxAttempts: number;
+	baseDelayMs: number;
+	jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelayMs: 1000,
+	jitter: true,
+};
+
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// Throttling, timeouts and transient gateway failures; anything else will fail the same way again.
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EAI_AGAIN',
+	'EPIPE',
+]);
+
+export const isRetryableError = (error: unknown) => {
+	const status = getErrorStatus(error);
+	if (status !== undefined) return RETRYABLE_STATUS_CODES.has(status);
+	const code = getErrorCode(error);
+	return code !== undefined && RETRYABLE_ERROR_CODES.has(code);
+};
+
+/**
+ * Resolves how long to wait before the next attempt. Server hints win over the computed
+ * exponential backoff so we never hammer a deployment that told us when to come back.
+ */
+export const getRetryDelay = (error: unknown, attempt: number, policy: RetryPolicy) => {
+	const retryAfterMs = getErrorHeader(error, 'x-ms-retry-after-ms');
+	if (retryAfterMs !== undefined && !Number.isNaN(Number(retryAfterMs))) {
+		return Math.min(Math.max(0, Number(retryAfterMs)), MAX_RETRY_DELAY_MS);
+	}
+
+	const retryAfter = getErrorHeader(error, 'retry-after');
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter);
+		const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+		if (!Number.isNaN(delay)) {
+			return Math.min(Math.max(0, delay), MAX_RETRY_DELAY_MS);
+		}
+	}
+
+	const backoff = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+	return policy.jitter ? Math.round(backoff / 2 + Math.random() * (backoff / 2)) : backoff;
+};
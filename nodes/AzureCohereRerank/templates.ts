@@ -0,0 +1,27 @@
+/** `{{query}}`, `{{pageContent}}`, `{{metadata.title}}`; `{{ $json.x }}` stays an n8n expression. */
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*(?:\.\w+)*)\s*\}\}/g;
+
+// Private use characters, which never occur in templates users type.
+const ESCAPE_START = '\uE000';
+const ESCAPE_END = '\uE001';
+const ESCAPED_PLACEHOLDER = new RegExp(`${ESCAPE_START}([\\w.]+)${ESCAPE_END}`, 'g');
+
+export const QUERY_PLACEHOLDER = 'query';
+
+/** Placeholder paths in order of appearance. */
+export const getPlaceholders = (template: string) =>
+	Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+
+/**
+ * Hides placeholders from n8n, which would otherwise evaluate `{{query}}` as an expression
+ * that resolves to nothing. Undo with `restorePlaceholders` after evaluating.
+ */
+export const escapePlaceholders = (expression: string) =>
+	expression.replace(PLACEHOLDER, (_, path: string) => `${ESCAPE_START}${path}${ESCAPE_END}`);
+
+export const restorePlaceholders = (value: string) =>
+	value.replace(ESCAPED_PLACEHOLDER, (_, path: string) => `{{${path}}}`);
+
+/** Replaces every placeholder with `resolve(path)`; unknown paths become empty strings. */
+export const renderTemplate = (template: string, resolve: (path: string) => string | undefined) =>
+	template.replace(PLACEHOLDER, (_, path: string) => resolve(path) ?? '');
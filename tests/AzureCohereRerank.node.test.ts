@@ -1,6 +1,16 @@
+import { createVerify, generateKeyPairSync } from 'crypto';
+
+import { NodeOperationError, sleep } from 'n8n-workflow';
+
 import { AzureCohereRerank } from '../nodes/AzureCohereRerank/AzureCohereRerank.node';
 
-import type { ISupplyDataFunctions } from 'n8n-workflow';
+import type {
+	ICredentialTestFunctions,
+	ICredentialsDecrypted,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	ISupplyDataFunctions,
+} from 'n8n-workflow';
 
 type TestDocument = { pageContent: string; metadata?: Record<string, unknown> } | string;
 type RerankedDocument = { pageContent: string; metadata: Record<string, unknown> };
@@ -13,6 +23,12 @@ const createContext = () => {
 	const context = {
 		getNodeParameter: jest.fn(),
 		getCredentials: jest.fn(),
+		getNode: jest.fn().mockReturnValue({ name: 'Azure Cohere Rerank' }),
+		getExecutionCancelSignal: jest.fn(),
+		evaluateExpression: jest.fn(),
+		addInputData: jest.fn().mockReturnValue({ index: 0 }),
+		addOutputData: jest.fn(),
+		logAiEvent: jest.fn(),
 		helpers: {
 			httpRequest,
 			httpRequestWithAuthentication,
@@ -275,4 +291,2150 @@ describe('AzureCohereRerank node', () => {
 		expect(result).toEqual([]);
 		expect(httpRequest).not.toHaveBeenCalled();
 	});
+
+	it('splits large document sets into batches and merges results by score', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3)
+			.mockReturnValueOnce({ batchSize: 2, maxConcurrency: 2 });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		httpRequest
+			.mockResolvedValueOnce({
+				results: [
+					{ index: 1, relevance_score: 0.5 },
+					{ index: 0, relevance_score: 0.1 },
+				],
+			})
+			.mockResolvedValueOnce({
+				results: [
+					{ index: 0, relevance_score: 0.8 },
+					{ index: 1, relevance_score: 0.3 },
+				],
+			})
+			.mockResolvedValueOnce({
+				results: [{ index: 0, relevance_score: 0.6 }],
+			});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const docs = ['d0', 'd1', 'd2', 'd3', 'd4'];
+		const result = await response.compressDocuments(docs, 'query');
+
+		expect(httpRequest).toHaveBeenCalledTimes(3);
+		expect(httpRequest).toHaveBeenNthCalledWith(
+			1,
+			expect.objectContaining({ body: expect.objectContaining({ documents: ['d0', 'd1'] }) }),
+		);
+		expect(httpRequest).toHaveBeenNthCalledWith(
+			3,
+			expect.objectContaining({ body: expect.objectContaining({ documents: ['d4'] }) }),
+		);
+		expect(result.map((doc) => doc.pageContent)).toEqual(['d2', 'd4', 'd1']);
+		expect(result.map((doc) => doc.metadata.relevance_score)).toEqual([0.8, 0.6, 0.5]);
+	});
+
+	it('retries throttled requests honoring retry headers', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3)
+			.mockReturnValueOnce({ maxAttempts: 3, retryBaseDelay: 0 });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		const throttled = Object.assign(new Error('Too Many Requests'), {
+			statusCode: 429,
+			response: { headers: { 'x-ms-retry-after-ms': '1' } },
+		});
+		const unavailable = Object.assign(new Error('Service Unavailable'), {
+			statusCode: 503,
+			response: { headers: { 'Retry-After': '0' } },
+		});
+		httpRequest
+			.mockRejectedValueOnce(throttled)
+			.mockRejectedValueOnce(unavailable)
+			.mockResolvedValueOnce({ results: [{ index: 0, relevance_score: 0.9 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['only'], 'query');
+
+		expect(httpRequest).toHaveBeenCalledTimes(3);
+		expect(context.logger.warn).toHaveBeenCalledWith(expect.stringContaining('attempt 1/3'));
+		expect(context.logger.warn).toHaveBeenCalledWith(expect.stringContaining('attempt 2/3'));
+		expect(result[0].metadata.relevance_score).toBe(0.9);
+	});
+
+	it('fails over to fallback endpoints and skips endpoints with an open circuit', async () => {
+		const { context, httpRequest, httpRequestWithAuthentication } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://eastus.failover/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxAttempts: 1, circuitBreakerThreshold: 1 },
+			fallbackEndpoints: {
+				endpoints: [
+					{ endpointUrl: 'https://westus.failover/v1/rerank', authentication: 'httpBearer' },
+				],
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockRejectedValue(
+			Object.assign(new Error('Service Unavailable'), { statusCode: 503 }),
+		);
+		httpRequestWithAuthentication.mockResolvedValue({
+			results: [{ index: 0, relevance_score: 0.6 }],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const first = await response.compressDocuments(['only'], 'query');
+		await response.compressDocuments(['only'], 'query');
+
+		expect(first[0].metadata.relevance_score).toBe(0.6);
+		expect(httpRequest).toHaveBeenCalledTimes(1);
+		expect(httpRequest.mock.calls[0][0].url).toBe('https://eastus.failover/v1/rerank');
+		expect(httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+		expect(httpRequestWithAuthentication).toHaveBeenCalledWith(
+			'httpBearerAuth',
+			expect.objectContaining({ url: 'https://westus.failover/v1/rerank' }),
+		);
+		expect(context.logger.warn).toHaveBeenCalledWith(
+			expect.stringContaining('failing over to https://westus.failover/v1/rerank'),
+		);
+		expect(context.logger.info).toHaveBeenCalledWith(
+			'Azure Cohere Rerank request served by https://westus.failover/v1/rerank',
+		);
+	});
+
+	it('sends each fallback endpoint its own key from the fallback keys credential', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://eastus.own-key/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxAttempts: 1 },
+			fallbackEndpoints: {
+				endpoints: [
+					{
+						endpointUrl: 'https://westus.own-key/v1/rerank',
+						authentication: 'fallbackCredential',
+					},
+					{
+						endpointUrl: 'https://northeu.own-key/v1/rerank',
+						authentication: 'fallbackCredential',
+					},
+				],
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockImplementation(async (type: string) =>
+			type === 'azureCohereRerankFallbackApi'
+				? {
+						headerName: 'api-key',
+						apiKeys: JSON.stringify({
+							'https://westus.own-key/v1/rerank': 'west-key',
+							'northeu.own-key/v1/rerank': 'north-key',
+						}),
+					}
+				: { authType: 'apiKey', apiKey: 'east-key' },
+		);
+		const unavailable = Object.assign(new Error('Service Unavailable'), { statusCode: 503 });
+		httpRequest
+			.mockRejectedValueOnce(unavailable)
+			.mockRejectedValueOnce(unavailable)
+			.mockResolvedValueOnce({ results: [{ index: 0, relevance_score: 0.6 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(['only'], 'query');
+
+		expect(
+			httpRequest.mock.calls.map(([options]) => [options.url, options.headers['api-key']]),
+		).toEqual([
+			['https://eastus.own-key/v1/rerank', 'east-key'],
+			['https://westus.own-key/v1/rerank', 'west-key'],
+			['https://northeu.own-key/v1/rerank', 'north-key'],
+		]);
+	});
+
+	it('names the fallback endpoint that has no key in the fallback keys credential', async () => {
+		const { context } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://eastus.own-key/v1/rerank',
+			modelName: 'rerank-v3.5',
+			fallbackEndpoints: {
+				endpoints: [
+					{
+						endpointUrl: 'https://westus.own-key/v1/rerank',
+						authentication: 'fallbackCredential',
+					},
+				],
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockImplementation(async (type: string) =>
+			type === 'azureCohereRerankFallbackApi'
+				? { apiKeys: JSON.stringify({ 'https://northeu.own-key/v1/rerank': 'north-key' }) }
+				: { authType: 'apiKey', apiKey: 'east-key' },
+		);
+
+		await expect(node.supplyData.call(context, 0)).rejects.toThrow(
+			'No key for https://westus.own-key/v1/rerank in the Azure Cohere Rerank Fallback Keys credential',
+		);
+	});
+
+	it('passes documents through unranked when reranking fails and On Error allows it', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { maxAttempts: 1, onError: 'passthroughTopN' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({ unexpected: true });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const topN = await response.compressDocuments(
+			[{ pageContent: 'a', metadata: { id: 1 } }, 'b', 'c'],
+			'query',
+		);
+
+		expect(topN.map((doc) => doc.pageContent)).toEqual(['a', 'b']);
+		expect(topN[0].metadata).toEqual({
+			id: 1,
+			rerank_skipped: true,
+			rerank_skip_reason: expect.stringContaining('Unexpected response shape'),
+			rerank_rank: 1,
+			original_index: 0,
+		});
+		expect(context.logger.warn).toHaveBeenCalledWith(
+			expect.stringContaining('passing documents through in their original order'),
+		);
+
+		parameters.options = { maxAttempts: 1, onError: 'passthroughAll' };
+		const { response: passthroughAll } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const all = await passthroughAll.compressDocuments(['a', 'b', 'c'], 'query');
+		expect(all.map((doc) => doc.pageContent)).toEqual(['a', 'b', 'c']);
+	});
+
+	it('does not pass through documents the input limits left out', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 5,
+			options: {
+				maxAttempts: 1,
+				onError: 'passthroughAll',
+				maxDocuments: 2,
+				maxDocumentsAction: 'dropTail',
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockRejectedValue(Object.assign(new Error('Bad Request'), { statusCode: 400 }));
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b', 'c', 'd', 'e'], 'query');
+
+		expect(result.map((doc) => doc.pageContent)).toEqual(['a', 'b']);
+		expect(result.every((doc) => doc.metadata.rerank_skipped)).toBe(true);
+	});
+
+	it('ranks documents locally with the BM25 backend without credentials or requests', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = { backend: 'localBm25', topN: 2 };
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(
+			['cooking pasta at home', 'rerank models on Azure', 'Azure pricing'],
+			'azure rerank',
+		);
+
+		expect(context.getCredentials).not.toHaveBeenCalled();
+		expect(httpRequest).not.toHaveBeenCalled();
+		expect(result.map((doc) => doc.pageContent)).toEqual([
+			'rerank models on Azure',
+			'Azure pricing',
+		]);
+		expect(result[0].metadata.relevance_score).toBeGreaterThan(0);
+		expect(result[0].metadata.relevance_score).toBeLessThanOrEqual(1);
+	});
+
+	it('scores every document in one BM25 pass regardless of Batch Size', async () => {
+		const { context } = createContext();
+		const parameters: Record<string, unknown> = { backend: 'localBm25', topN: 4 };
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		const documents = [
+			'azure pricing',
+			'azure rerank azure rerank models',
+			'rerank models',
+			'azure rerank',
+		];
+		const rank = async () => {
+			const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+				response: WrappedReranker;
+			};
+			return (await response.compressDocuments(documents, 'azure rerank')).map((doc) => [
+				doc.pageContent,
+				doc.metadata.relevance_score,
+			]);
+		};
+
+		const unbatched = await rank();
+		parameters.options = { batchSize: 2 };
+
+		expect(await rank()).toEqual(unbatched);
+	});
+
+	it('falls back to BM25 ranking when the remote rerank fails', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxAttempts: 1, onError: 'localBm25' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockRejectedValue(Object.assign(new Error('Bad Gateway'), { statusCode: 502 }));
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['unrelated', 'azure rerank'], 'rerank');
+
+		expect(result).toHaveLength(1);
+		expect(result[0].pageContent).toBe('azure rerank');
+		expect(result[0].metadata).toEqual({
+			relevance_score: expect.any(Number),
+			raw_score: expect.any(Number),
+			rerank_rank: 1,
+			original_index: 1,
+			rerank_fallback: true,
+			rerank_fallback_reason: expect.stringContaining('Bad Gateway'),
+		});
+	});
+
+	it('fuses retriever scores with rerank scores and reorders by the fused score', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: {
+				scoreFusion: 'weightedLinear',
+				firstStageScoreKey: 'similarity',
+				rerankWeight: 0.5,
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 0, relevance_score: 0.6 },
+				{ index: 1, relevance_score: 0.5 },
+				{ index: 2, relevance_score: 0.1 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(
+			[
+				{ pageContent: 'a', metadata: { similarity: 0.1 } },
+				{ pageContent: 'b', metadata: { similarity: 0.9 } },
+				{ pageContent: 'c', metadata: { similarity: 0.5 } },
+			],
+			'query',
+		);
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({ body: expect.objectContaining({ top_n: 3 }) }),
+		);
+		expect(result.map((doc) => doc.pageContent)).toEqual(['b', 'a']);
+		expect(result[0].metadata).toEqual({
+			similarity: 0.9,
+			relevance_score: 0.5,
+			raw_score: 0.5,
+			rerank_rank: 1,
+			original_index: 1,
+			first_stage_score: 0.9,
+			fused_score: expect.closeTo(0.7),
+		});
+	});
+
+	it('removes near-duplicate chunks so the top N holds distinct documents', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { removeDuplicates: true, duplicateThreshold: 0.8 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 0, relevance_score: 0.9 },
+				{ index: 1, relevance_score: 0.88 },
+				{ index: 2, relevance_score: 0.4 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(
+			[
+				'Search units are billed per query and up to one hundred documents',
+				'Search units are billed per query and up to one hundred documents.',
+				'Rerank models are available in East US and Sweden Central',
+			],
+			'billing',
+		);
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({ body: expect.objectContaining({ top_n: 3 }) }),
+		);
+		expect(result.map((doc) => doc.metadata.relevance_score)).toEqual([0.9, 0.4]);
+	});
+
+	it('only requests and diversifies a candidate pool of Top N times four documents', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { diversify: true, mmrLambda: 0.5 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		const documents = Array.from({ length: 20 }, (_, index) => `document number ${index}`);
+		httpRequest.mockResolvedValue({
+			results: Array.from({ length: 8 }, (_, index) => ({
+				index,
+				relevance_score: 1 - index / 10,
+			})),
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(documents, 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({ body: expect.objectContaining({ top_n: 8 }) }),
+		);
+		expect(result).toHaveLength(2);
+	});
+
+	it('ranks against several queries and exposes the best matching query', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { queryDelimiter: '||', additionalQueries: 'rerank cost', queryAggregation: 'max' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		const scores: Record<string, number[]> = {
+			'rerank pricing': [0.2, 0.7, 0.1],
+			'search units': [0.9, 0.3, 0.2],
+			'rerank cost': [0.1, 0.8, 0.4],
+		};
+		httpRequest.mockImplementation(async ({ body }: { body: { query: string } }) => ({
+			results: scores[body.query]
+				.map((relevance_score, index) => ({ index, relevance_score }))
+				.sort((a, b) => b.relevance_score - a.relevance_score),
+		}));
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(
+			['billing units', 'pricing page', 'changelog'],
+			'rerank pricing || search units',
+		);
+
+		expect(httpRequest).toHaveBeenCalledTimes(3);
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({ query: 'search units', top_n: 3 }),
+			}),
+		);
+		expect(result.map((doc) => doc.metadata)).toEqual([
+			{
+				relevance_score: 0.9,
+				raw_score: 0.9,
+				rerank_rank: 1,
+				original_index: 0,
+				matched_query: 'search units',
+			},
+			{
+				relevance_score: 0.8,
+				raw_score: 0.8,
+				rerank_rank: 2,
+				original_index: 1,
+				matched_query: 'rerank cost',
+			},
+		]);
+	});
+
+	it('reports timed out requests as a distinct node error', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxAttempts: 2, retryBaseDelay: 0, timeout: 5000 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockRejectedValue(
+			Object.assign(new Error('timeout of 5000ms exceeded'), { code: 'ECONNABORTED' }),
+		);
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		const error = await response.compressDocuments(['only'], 'query').catch((e: Error) => e);
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect((error as Error).message).toBe('Azure Cohere Rerank request timed out after 5000ms');
+		expect(httpRequest).toHaveBeenCalledTimes(2);
+		expect(httpRequest).toHaveBeenCalledWith(expect.objectContaining({ timeout: 5000 }));
+	});
+
+	it('stops retrying and passes no documents through once the execution is cancelled', async () => {
+		const { context, httpRequest } = createContext();
+		const controller = new AbortController();
+		(context.getExecutionCancelSignal as jest.Mock).mockReturnValue(controller.signal);
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxAttempts: 3, retryBaseDelay: 60_000, onError: 'passthroughAll' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockImplementation(async () => {
+			controller.abort();
+			throw Object.assign(new Error('Service Unavailable'), { statusCode: 503 });
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		await expect(response.compressDocuments(['only'], 'query')).rejects.toThrow(
+			'Azure Cohere Rerank request was cancelled',
+		);
+		expect(httpRequest).toHaveBeenCalledTimes(1);
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({ abortSignal: controller.signal }),
+		);
+	});
+
+	it.each([
+		[
+			'https://hub.services.ai.azure.com/models',
+			'https://hub.services.ai.azure.com/models/rerank?api-version=2024-05-01-preview',
+		],
+		[
+			'https://hub.openai.azure.com/openai/deployments/rerank-v35?api-version=2025-01-01',
+			'https://hub.openai.azure.com/openai/deployments/rerank-v35/rerank?api-version=2025-01-01',
+		],
+	])('normalizes the Azure endpoint %s', async (endpointUrl, expectedUrl) => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl,
+			modelName: 'rerank-v3.5',
+			topN: 1,
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({ results: [{ index: 0, relevance_score: 0.5 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(['only'], 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(expect.objectContaining({ url: expectedUrl }));
+	});
+
+	it('rejects endpoint URLs that point to another route', async () => {
+		const { context } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://deployment.eastus.models.ai.azure.com/v1/chat/completions',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		const error = await node.supplyData.call(context, 0).catch((e: Error) => e);
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect((error as Error).message).toContain('chat completions route');
+	});
+
+	it('does not retry non-transient failures and stops after max attempts', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3)
+			.mockReturnValueOnce({ maxAttempts: 2, retryBaseDelay: 0 });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		httpRequest.mockRejectedValueOnce(Object.assign(new Error('Bad Request'), { statusCode: 400 }));
+		await expect(response.compressDocuments(['a'], 'q')).rejects.toThrow('400');
+		expect(httpRequest).toHaveBeenCalledTimes(1);
+
+		httpRequest.mockClear();
+		httpRequest.mockRejectedValue(
+			Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+		);
+		await expect(response.compressDocuments(['a'], 'q')).rejects.toThrow('socket hang up');
+		expect(httpRequest).toHaveBeenCalledTimes(2);
+	});
+
+	it('drops documents below the minimum relevance score', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3)
+			.mockReturnValueOnce({ minRelevanceScore: 0.5, thresholdMode: 'relativeToTop' });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 2, relevance_score: 0.4 },
+				{ index: 0, relevance_score: 0.25 },
+				{ index: 1, relevance_score: 0.1 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b', 'c'], 'query');
+
+		expect(result.map((doc) => doc.pageContent)).toEqual(['c', 'a']);
+	});
+
+	it('falls back to the best document when nothing meets the threshold', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3)
+			.mockReturnValueOnce({ minRelevanceScore: 0.8, thresholdFallback: 'bestDocument' });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.3 },
+				{ index: 0, relevance_score: 0.2 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b'], 'query');
+
+		expect(result).toHaveLength(1);
+		expect(result[0].pageContent).toBe('b');
+	});
+
+	it('ranks structured documents on the configured rank fields only', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3)
+			.mockReturnValueOnce({ rankFields: 'title, pageContent, source.name' });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.7 },
+				{ index: 0, relevance_score: 0.2 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const docs = [
+			{ pageContent: 'first body', metadata: { title: 'First', id: 'x-1' } },
+			{
+				pageContent: 'second body',
+				metadata: { title: 'Second', id: 'x-2', source: { name: 'wiki' } },
+			},
+		];
+		const result = await response.compressDocuments(docs, 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({
+					documents: [
+						'title: First\npageContent: first body',
+						'title: Second\npageContent: second body\nsource.name: wiki',
+					],
+				}),
+			}),
+		);
+		expect(result[0]).toEqual({
+			pageContent: 'second body',
+			metadata: {
+				title: 'Second',
+				id: 'x-2',
+				source: { name: 'wiki' },
+				relevance_score: 0.7,
+				raw_score: 0.7,
+				rerank_rank: 1,
+				original_index: 1,
+			},
+		});
+	});
+
+	it('chunks long documents and aggregates chunk scores per document', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(2)
+			.mockReturnValueOnce({ maxTokensPerDocument: 3, chunkOverlap: 1 });
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.9 },
+				{ index: 3, relevance_score: 0.5 },
+				{ index: 0, relevance_score: 0.2 },
+				{ index: 2, relevance_score: 0.1 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const docs = [{ pageContent: 'one two three four five six seven' }, 'short doc'];
+		const result = await response.compressDocuments(docs, 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({
+					documents: ['one two three', 'three four five', 'five six seven', 'short doc'],
+					top_n: 4,
+				}),
+			}),
+		);
+		expect(result.map((doc) => doc.pageContent)).toEqual([
+			'one two three four five six seven',
+			'short doc',
+		]);
+		expect(result[0].metadata).toEqual({
+			relevance_score: 0.9,
+			raw_score: 0.9,
+			rerank_rank: 1,
+			original_index: 0,
+			chunk_span: { start: 8, end: 23, source: 'pageContent' },
+		});
+		expect(result[1].metadata.relevance_score).toBe(0.5);
+	});
+
+	it('flags chunk spans that refer to the rendered document rather than the page content', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: {
+				maxTokensPerDocument: 3,
+				chunkOverlap: 0,
+				documentTemplate: 'Title: {{metadata.title}}\n{{pageContent}}',
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({ results: [{ index: 1, relevance_score: 0.9 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const [result] = await response.compressDocuments(
+			[{ pageContent: 'one two three four', metadata: { title: 'Numbers' } }],
+			'query',
+		);
+
+		expect(httpRequest.mock.calls[0][0].body.documents).toEqual([
+			'Title: Numbers\none',
+			'two three four',
+		]);
+		expect(result.metadata.chunk_span).toEqual({ start: 19, end: 33, source: 'sentText' });
+	});
+
+	it('reranks main input items in Rerank Items mode', async () => {
+		const { context, httpRequestWithAuthentication } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'httpBearer',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			query: 'refund policy',
+			documentField: 'content.body',
+			scoreField: 'score',
+		};
+		const executeContext = Object.assign(context, {
+			getInputData: () => [
+				{ json: { id: 1, content: { body: 'shipping times' } } },
+				{ json: { id: 2, content: { body: 'refunds within 30 days' } } },
+				{ json: { id: 3, content: { body: 'return labels' } } },
+			],
+			getNode: () => ({ name: 'Azure Cohere Rerank' }),
+			continueOnFail: () => false,
+		}) as unknown as IExecuteFunctions;
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+
+		httpRequestWithAuthentication.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.95 },
+				{ index: 2, relevance_score: 0.4 },
+			],
+		});
+
+		const [output] = await node.execute.call(executeContext);
+
+		expect(httpRequestWithAuthentication).toHaveBeenCalledWith(
+			'httpBearerAuth',
+			expect.objectContaining({
+				body: expect.objectContaining({
+					query: 'refund policy',
+					documents: ['shipping times', 'refunds within 30 days', 'return labels'],
+				}),
+			}),
+		);
+		expect(output).toEqual([
+			{
+				json: {
+					id: 2,
+					content: { body: 'refunds within 30 days' },
+					score: 0.95,
+					raw_score: 0.95,
+					rerank_rank: 1,
+					original_index: 1,
+				},
+				pairedItem: { item: 1 },
+			},
+			{
+				json: {
+					id: 3,
+					content: { body: 'return labels' },
+					score: 0.4,
+					raw_score: 0.4,
+					rerank_rank: 2,
+					original_index: 2,
+				},
+				pairedItem: { item: 2 },
+			},
+		]);
+
+		parameters.options = { scoreCalibration: 'minMax' };
+		const [calibrated] = await node.execute.call(executeContext);
+
+		expect(
+			calibrated.map(({ json }) => [json.id, json.score, json.raw_score, json.rerank_rank]),
+		).toEqual([
+			[2, 1, 0.95, 1],
+			[3, 0, 0.4, 2],
+		]);
+	});
+
+	it('rejects a query that differs between items and names the item', async () => {
+		const { context, httpRequestWithAuthentication } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'httpBearer',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			documentField: 'text',
+		};
+		const items = [
+			{ json: { text: 'shipping times', question: 'refund policy' } },
+			{ json: { text: 'refunds within 30 days', question: 'refund policy' } },
+			{ json: { text: 'return labels', question: 'return labels' } },
+		];
+		let continueOnFail = false;
+		const executeContext = Object.assign(context, {
+			getInputData: () => items,
+			getNode: () => ({ name: 'Azure Cohere Rerank' }),
+			continueOnFail: () => continueOnFail,
+		}) as unknown as IExecuteFunctions;
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, itemIndex: number, fallback: unknown) =>
+				name === 'query' ? items[itemIndex].json.question : (parameters[name] ?? fallback),
+		);
+
+		const failure = node.execute.call(executeContext);
+		await expect(failure).rejects.toThrow('The query for item 2 differs');
+		await expect(failure).rejects.toMatchObject({ context: { itemIndex: 2 } });
+		expect(httpRequestWithAuthentication).not.toHaveBeenCalled();
+
+		continueOnFail = true;
+		const [output] = await node.execute.call(executeContext);
+		expect(output).toEqual([
+			{
+				json: { error: 'The query for item 2 differs from the query for the first item' },
+				pairedItem: { item: 2 },
+			},
+		]);
+	});
+
+	it('uses the Cohere API default endpoint and v2 schema for the native flavor', async () => {
+		const { context, httpRequestWithAuthentication } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('httpBearer')
+			.mockReturnValueOnce('')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(2)
+			.mockReturnValueOnce({})
+			.mockReturnValueOnce('cohereNative');
+
+		httpRequestWithAuthentication.mockResolvedValue({
+			id: 'abc',
+			results: [{ index: 0, relevance_score: 0.8 }],
+			meta: { billed_units: { search_units: 1 } },
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(['doc'], 'query');
+
+		expect(httpRequestWithAuthentication).toHaveBeenCalledWith(
+			'httpBearerAuth',
+			expect.objectContaining({
+				url: 'https://api.cohere.com/v2/rerank',
+				body: { model: 'rerank-v3.5', query: 'query', documents: ['doc'], top_n: 2 },
+			}),
+		);
+	});
+
+	it('parses Jina/Voyage compatible responses for the generic flavor', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('httpHeader')
+			.mockReturnValueOnce('https://voyage.example.com/v1/rerank')
+			.mockReturnValueOnce('rerank-2')
+			.mockReturnValueOnce(2)
+			.mockReturnValueOnce({})
+			.mockReturnValueOnce('generic');
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			name: 'Authorization',
+			value: 'Bearer key',
+		});
+
+		httpRequest.mockResolvedValue({
+			data: [
+				{ index: 1, relevance_score: 0.7 },
+				{ index: 0, score: 0.3 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b'], 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({ top_n: 2, top_k: 2, model: 'rerank-2' }),
+			}),
+		);
+		expect(result.map((doc) => [doc.pageContent, doc.metadata.relevance_score])).toEqual([
+			['b', 0.7],
+			['a', 0.3],
+		]);
+	});
+
+	it('acquires, caches and refreshes Entra ID tokens', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: '',
+			modelName: 'rerank-v3.5',
+			topN: 3,
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'entraId',
+			tenantId: 'tenant-cache',
+			clientId: 'client',
+			clientSecret: 'secret',
+		});
+
+		const unauthorized = Object.assign(new Error('Unauthorized'), { statusCode: 401 });
+		httpRequest.mockImplementation(async (options: { url: string; body: unknown }) => {
+			if (options.url.startsWith('https://login.microsoftonline.com/')) {
+				const token = httpRequest.mock.calls.length < 3 ? 'token-1' : 'token-2';
+				return { access_token: token, expires_in: 3600 };
+			}
+			return { results: [{ index: 0, relevance_score: 0.5 }] };
+		});
+
+		const first = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await first.response.compressDocuments(['doc'], 'query');
+
+		expect(httpRequest).toHaveBeenNthCalledWith(
+			1,
+			expect.objectContaining({
+				method: 'POST',
+				url: 'https://login.microsoftonline.com/tenant-cache/oauth2/v2.0/token',
+				body: expect.stringContaining('grant_type=client_credentials'),
+			}),
+		);
+		expect(httpRequest).toHaveBeenNthCalledWith(
+			2,
+			expect.objectContaining({
+				url: 'https://endpoint/v1/rerank',
+				headers: expect.objectContaining({ Authorization: 'Bearer token-1' }),
+			}),
+		);
+
+		const second = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		httpRequest.mockImplementationOnce(async () => {
+			throw unauthorized;
+		});
+		await second.response.compressDocuments(['doc'], 'query');
+
+		const urls = httpRequest.mock.calls.map(([options]) => (options as { url: string }).url);
+		expect(urls.filter((url) => url.startsWith('https://login.microsoftonline.com/'))).toHaveLength(
+			2,
+		);
+		expect(httpRequest).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				headers: expect.objectContaining({ Authorization: 'Bearer token-2' }),
+			}),
+		);
+	});
+
+	it('reports why the Entra ID token endpoint refused the request', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: '',
+			modelName: 'rerank-v3.5',
+			topN: 3,
+			options: { maxAttempts: 1 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'entraId',
+			tenantId: 'tenant-refused',
+			clientId: 'client',
+			clientSecret: 'wrong-secret',
+		});
+		httpRequest.mockRejectedValue(
+			Object.assign(new Error('Request failed with status code 401'), {
+				response: {
+					status: 401,
+					data: {
+						error: 'invalid_client',
+						error_description: 'AADSTS7000215: Invalid client secret provided.',
+					},
+				},
+			}),
+		);
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		await expect(response.compressDocuments(['doc'], 'query')).rejects.toThrow(
+			'Failed to acquire Entra ID token: AADSTS7000215: Invalid client secret provided.',
+		);
+	});
+
+	it('signs a client assertion for Entra ID certificate credentials', async () => {
+		const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce('rerank-v3.5')
+			.mockReturnValueOnce(3);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'entraId',
+			tenantId: 'tenant-certificate',
+			clientId: 'client',
+			clientAuthentication: 'certificate',
+			certificate: '-----BEGIN CERTIFICATE-----\nMIIBdGVzdA==\n-----END CERTIFICATE-----',
+			privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+		});
+
+		httpRequest
+			.mockResolvedValueOnce({ access_token: 'cert-token', expires_in: 3600 })
+			.mockResolvedValueOnce({ results: [{ index: 0, relevance_score: 0.5 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(['doc'], 'query');
+
+		const form = new URLSearchParams((httpRequest.mock.calls[0][0] as { body: string }).body);
+		expect(form.get('client_secret')).toBeNull();
+		const [header, payload, signature] = (form.get('client_assertion') ?? '').split('.');
+		expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toMatchObject({
+			alg: 'RS256',
+			x5t: expect.any(String),
+		});
+		expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toMatchObject({
+			iss: 'client',
+			sub: 'client',
+		});
+		expect(
+			createVerify('RSA-SHA256')
+				.update(`${header}.${payload}`)
+				.verify(publicKey, Buffer.from(signature, 'base64url')),
+		).toBe(true);
+		expect(httpRequest).toHaveBeenLastCalledWith(
+			expect.objectContaining({
+				headers: expect.objectContaining({ Authorization: 'Bearer cert-token' }),
+			}),
+		);
+	});
+
+	describe('credential test', () => {
+		const runTest = async (data: Record<string, unknown>, request: jest.Mock) => {
+			const context = { helpers: { request }, logger: {} } as unknown as ICredentialTestFunctions;
+			const credential = { id: '1', name: 'Azure', type: 'azureCohereRerankApi', data };
+			return await node.methods.credentialTest.azureCohereRerankApiTest.call(
+				context,
+				credential as ICredentialsDecrypted,
+			);
+		};
+
+		const apiKeyCredential = {
+			endpointUrl: 'https://deployment.eastus.models.ai.azure.com/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		};
+
+		it('sends an authenticated probe rerank', async () => {
+			const request = jest.fn().mockResolvedValue(
+				JSON.stringify({
+					results: [
+						{ index: 0, relevance_score: 0.6 },
+						{ index: 1, relevance_score: 0.4 },
+					],
+				}),
+			);
+
+			const result = await runTest(apiKeyCredential, request);
+
+			expect(result).toEqual({ status: 'OK', message: 'Connection successful' });
+			expect(request).toHaveBeenCalledWith(
+				expect.objectContaining({
+					method: 'POST',
+					uri: 'https://deployment.eastus.models.ai.azure.com/v1/rerank',
+					headers: expect.objectContaining({ 'api-key': 'secret-key' }),
+				}),
+			);
+		});
+
+		it('reports a missing rerank path without calling the endpoint', async () => {
+			const request = jest.fn();
+
+			const result = await runTest(
+				{ ...apiKeyCredential, endpointUrl: 'https://rerank.example.com/api' },
+				request,
+			);
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain('/v1/rerank');
+			expect(request).not.toHaveBeenCalled();
+		});
+
+		it('completes a serverless endpoint without the rerank route', async () => {
+			const request = jest
+				.fn()
+				.mockResolvedValue(JSON.stringify({ results: [{ index: 0, relevance_score: 0.6 }] }));
+
+			const result = await runTest(
+				{ ...apiKeyCredential, endpointUrl: 'https://deployment.eastus.models.ai.azure.com/' },
+				request,
+			);
+
+			expect(result.status).toBe('OK');
+			expect(request).toHaveBeenCalledWith(
+				expect.objectContaining({
+					uri: 'https://deployment.eastus.models.ai.azure.com/v1/rerank',
+				}),
+			);
+		});
+
+		it('rejects portal URLs without calling the endpoint', async () => {
+			const request = jest.fn();
+
+			const result = await runTest(
+				{ ...apiKeyCredential, endpointUrl: 'https://ai.azure.com/build/deployments' },
+				request,
+			);
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain('Target URI');
+			expect(request).not.toHaveBeenCalled();
+		});
+
+		it.each([
+			[{ statusCode: 401 }, 'Authentication failed (401)'],
+			[{ statusCode: 404 }, 'Endpoint not found (404)'],
+			[{ cause: { code: 'ENOTFOUND' } }, 'Could not resolve deployment.eastus.models.ai.azure.com'],
+		])('explains probe failures %#', async (failure, message) => {
+			const request = jest.fn().mockRejectedValue(Object.assign(new Error('failed'), failure));
+
+			const result = await runTest(apiKeyCredential, request);
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain(message);
+		});
+
+		it('sends the test model and blames it only when one was configured', async () => {
+			const failure = Object.assign(new Error('failed'), {
+				statusCode: 400,
+				error: { message: 'model rerank-x not found' },
+			});
+			const request = jest.fn().mockRejectedValue(failure);
+
+			const withModel = await runTest({ ...apiKeyCredential, testModel: 'rerank-x' }, request);
+			const withoutModel = await runTest(apiKeyCredential, request);
+
+			expect(JSON.parse(request.mock.calls[0][0].body)).toEqual(
+				expect.objectContaining({ model: 'rerank-x' }),
+			);
+			expect(JSON.parse(request.mock.calls[1][0].body)).not.toHaveProperty('model');
+			expect(withModel.message).toContain('rejected model "rerank-x" (400)');
+			expect(withoutModel.message).toContain('Rerank probe failed (400)');
+		});
+
+		it('probes /v2/rerank endpoints with the Cohere v2 schema', async () => {
+			const request = jest
+				.fn()
+				.mockResolvedValue(JSON.stringify({ results: [{ index: 0, relevance_score: 0.6 }] }));
+			const v2Credential = {
+				...apiKeyCredential,
+				endpointUrl: 'https://rerank.example.com/v2/rerank',
+			};
+
+			const missingModel = await runTest(v2Credential, request);
+			const result = await runTest({ ...v2Credential, testModel: 'rerank-v3.5' }, request);
+
+			expect(missingModel.message).toContain('require a model');
+			expect(result.status).toBe('OK');
+			expect(request).toHaveBeenCalledTimes(1);
+			expect(Object.keys(JSON.parse(request.mock.calls[0][0].body))[0]).toBe('model');
+		});
+
+		it('rejects responses without rerank results', async () => {
+			const request = jest.fn().mockResolvedValue('{"status":"ok"}');
+
+			const result = await runTest(apiKeyCredential, request);
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain('did not return rerank results');
+		});
+
+		it('probes every fallback endpoint with its own key and names the one that fails', async () => {
+			const context = {
+				helpers: {
+					request: jest
+						.fn()
+						.mockResolvedValueOnce(
+							JSON.stringify({ results: [{ index: 0, relevance_score: 0.6 }] }),
+						)
+						.mockRejectedValueOnce(Object.assign(new Error('failed'), { statusCode: 401 })),
+				},
+				logger: {},
+			} as unknown as ICredentialTestFunctions;
+			const credential = {
+				id: '2',
+				name: 'Fallback keys',
+				type: 'azureCohereRerankFallbackApi',
+				data: {
+					apiKeys: JSON.stringify({
+						'https://westus.models.ai.azure.com/v1/rerank': 'west-key',
+						'https://northeu.models.ai.azure.com/v1/rerank': 'north-key',
+					}),
+				},
+			};
+
+			const result = await node.methods.credentialTest.azureCohereRerankFallbackApiTest.call(
+				context,
+				credential as ICredentialsDecrypted,
+			);
+
+			expect(
+				(context.helpers.request as jest.Mock).mock.calls.map(([options]) => [
+					options.uri,
+					options.headers['api-key'],
+				]),
+			).toEqual([
+				['https://westus.models.ai.azure.com/v1/rerank', 'west-key'],
+				['https://northeu.models.ai.azure.com/v1/rerank', 'north-key'],
+			]);
+			expect(result.status).toBe('Error');
+			expect(result.message).toContain(
+				'https://northeu.models.ai.azure.com/v1/rerank: Authentication failed (401)',
+			);
+		});
+	});
+
+	describe('model list search', () => {
+		const createLoadOptionsContext = (parameters: Record<string, unknown>) => {
+			const { context, ...mocks } = createContext();
+			const loadOptionsContext = Object.assign(context, {
+				getCurrentNodeParameter: (name: string) => parameters[name],
+				getNode: () => ({ name: 'Azure Cohere Rerank' }),
+			}) as unknown as ILoadOptionsFunctions;
+			return { context: loadOptionsContext, ...mocks };
+		};
+
+		it('lists the model reported by the deployment info route', async () => {
+			const { context, httpRequest } = createLoadOptionsContext({
+				authentication: 'azureCredential',
+				endpointUrl: 'https://deployment.eastus.models.ai.azure.com/v1/rerank',
+			});
+			(context.getCredentials as jest.Mock).mockResolvedValue({
+				authType: 'apiKey',
+				apiKey: 'secret-key',
+			});
+			httpRequest.mockResolvedValue({ model_name: 'Cohere-rerank-v4.0-pro' });
+
+			const result = await node.methods.listSearch.searchModels.call(context);
+
+			expect(httpRequest).toHaveBeenCalledWith(
+				expect.objectContaining({
+					method: 'GET',
+					url: 'https://deployment.eastus.models.ai.azure.com/info',
+					headers: expect.objectContaining({ 'api-key': 'secret-key' }),
+				}),
+			);
+			expect(result.results).toEqual([
+				{ name: 'Cohere-rerank-v4.0-pro', value: 'Cohere-rerank-v4.0-pro' },
+			]);
+		});
+
+		it('falls back to the static model list when the lookup fails', async () => {
+			const { context, httpRequestWithAuthentication } = createLoadOptionsContext({
+				authentication: 'httpBearer',
+				endpointUrl: 'https://deployment.eastus.models.ai.azure.com/v1/rerank',
+			});
+			httpRequestWithAuthentication.mockRejectedValue(new Error('Not Found'));
+
+			const result = await node.methods.listSearch.searchModels.call(context, 'multi');
+
+			expect(httpRequestWithAuthentication).toHaveBeenCalledTimes(2);
+			expect(result.results).toEqual([
+				{ name: 'rerank-multilingual-v3.0', value: 'rerank-multilingual-v3.0' },
+			]);
+		});
+	});
+
+	it('accepts a free-text model ID from the model resource locator', async () => {
+		const { context, httpRequest } = createContext();
+		(context.getNodeParameter as jest.Mock)
+			.mockReturnValueOnce('azureCredential')
+			.mockReturnValueOnce('https://endpoint/v1/rerank')
+			.mockReturnValueOnce({ __rl: true, mode: 'id', value: 'my-rerank-deployment' })
+			.mockReturnValueOnce(3);
+
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({ results: [{ index: 0, relevance_score: 0.5 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(['doc'], 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({ model: 'my-rerank-deployment' }),
+			}),
+		);
+	});
+
+	it('serves repeated rerank calls from the cache', async () => {
+		const { context, httpRequest } = createContext();
+		const staticData = {};
+		Object.assign(context, { getWorkflowStaticData: jest.fn().mockReturnValue(staticData) });
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { cacheResults: true, cacheStore: 'workflowStaticData' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.8 },
+				{ index: 0, relevance_score: 0.1 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const first = await response.compressDocuments(['a', 'b'], 'cached query');
+		const second = await response.compressDocuments(['a', 'b'], 'cached query');
+		await response.compressDocuments(['a', 'c'], 'cached query');
+
+		expect(httpRequest).toHaveBeenCalledTimes(2);
+		expect(first[0].metadata).toEqual({
+			relevance_score: 0.8,
+			raw_score: 0.8,
+			rerank_rank: 1,
+			original_index: 1,
+			rerank_cache_hit: false,
+		});
+		expect(second[0].metadata).toEqual({
+			relevance_score: 0.8,
+			raw_score: 0.8,
+			rerank_rank: 1,
+			original_index: 1,
+			rerank_cache_hit: true,
+		});
+		expect(context.getWorkflowStaticData).toHaveBeenCalledWith('node');
+		expect(Object.keys((staticData as { rerankCache: object }).rerankCache)).toHaveLength(2);
+	});
+
+	it('surfaces billed search units and request IDs from rerank responses', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { batchSize: 1 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest
+			.mockResolvedValueOnce({
+				id: 'req-1',
+				results: [{ index: 0, relevance_score: 0.4 }],
+				meta: { billed_units: { search_units: 1 } },
+			})
+			.mockResolvedValueOnce({
+				id: 'req-2',
+				results: [{ index: 0, relevance_score: 0.9 }],
+				meta: { billed_units: { search_units: 1 } },
+			});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b'], 'usage query');
+
+		expect(result[0].metadata.rerank_usage).toEqual({
+			request_ids: ['req-1', 'req-2'],
+			search_units: 2,
+		});
+		expect(context.addOutputData).toHaveBeenCalledWith('ai_reranker', 0, [
+			[
+				{
+					json: expect.objectContaining({
+						requestIds: ['req-1', 'req-2'],
+						searchUnits: 2,
+					}),
+				},
+			],
+		]);
+		expect(context.logger.info).toHaveBeenCalledWith(
+			'Azure Cohere Rerank usage',
+			expect.objectContaining({ searchUnits: 2, modelName: 'rerank-v3.5' }),
+		);
+	});
+
+	it('records each rerank call as an AI reranker run', async () => {
+		const { context, httpRequest } = createContext();
+		(context.addInputData as jest.Mock).mockReturnValue({ index: 3 });
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			id: 'req-1',
+			results: [
+				{ index: 2, relevance_score: 0.9 },
+				{ index: 0, relevance_score: 0.4 },
+			],
+			meta: { billed_units: { search_units: 1 } },
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(['a', 'b', 'c'], 'trace query');
+
+		expect(context.addInputData).toHaveBeenCalledTimes(1);
+		expect(context.addInputData).toHaveBeenCalledWith('ai_reranker', [
+			[{ json: { query: 'trace query', documentCount: 3 } }],
+		]);
+		expect(context.addOutputData).toHaveBeenCalledWith('ai_reranker', 3, [
+			[
+				{
+					json: {
+						results: [
+							{ index: 2, relevance_score: 0.9 },
+							{ index: 0, relevance_score: 0.4 },
+						],
+						latencyMs: expect.any(Number),
+						requestIds: ['req-1'],
+						searchUnits: 1,
+					},
+				},
+			],
+		]);
+		expect(context.logAiEvent).toHaveBeenCalledWith(
+			'ai-document-reranked',
+			JSON.stringify({ query: 'trace query' }),
+		);
+	});
+
+	it('records failed rerank calls as errored runs', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { maxAttempts: 1 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockRejectedValue(Object.assign(new Error('Bad Request'), { statusCode: 400 }));
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		await expect(response.compressDocuments(['a'], 'failing query')).rejects.toThrow();
+		const [, runIndex, error] = (context.addOutputData as jest.Mock).mock.calls[0];
+		expect(runIndex).toBe(0);
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect((error as NodeOperationError).description).toMatch(/^Failed after \d+ms$/);
+		expect(context.logAiEvent).not.toHaveBeenCalled();
+	});
+
+	it('records the latency of timed out calls on the errored run', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxAttempts: 1, timeout: 5000 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockRejectedValue(
+			Object.assign(new Error('timeout of 5000ms exceeded'), { code: 'ECONNABORTED' }),
+		);
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		await expect(response.compressDocuments(['only'], 'query')).rejects.toThrow('timed out');
+		const [, , error] = (context.addOutputData as jest.Mock).mock.calls[0];
+		expect((error as NodeOperationError).message).toBe(
+			'Azure Cohere Rerank request timed out after 5000ms',
+		);
+		expect((error as NodeOperationError).description).toMatch(
+			/^The rerank endpoint did not answer in time\..* Failed after \d+ms$/,
+		);
+	});
+
+	it('calibrates scores per model before applying the threshold', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 3,
+			options: {
+				scoreCalibration: 'curve',
+				calibrationCurves: '{"rerank-v3.5": [[0, 0], [0.2, 0.8], [1, 1]], "*": [[0, 0], [1, 1]]}',
+				minRelevanceScore: 0.3,
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 2, relevance_score: 0.6 },
+				{ index: 0, relevance_score: 0.1 },
+				{ index: 1, relevance_score: 0.05 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b', 'c'], 'query');
+
+		expect(result.map((doc) => doc.metadata)).toEqual([
+			{ relevance_score: expect.closeTo(0.9), raw_score: 0.6, rerank_rank: 1, original_index: 2 },
+			{ relevance_score: expect.closeTo(0.4), raw_score: 0.1, rerank_rank: 2, original_index: 0 },
+		]);
+	});
+
+	it('normalizes min-max scores over every document, not just the Top N', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { scoreCalibration: 'minMax' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 2, relevance_score: 0.9 },
+				{ index: 0, relevance_score: 0.5 },
+				{ index: 1, relevance_score: 0.1 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['a', 'b', 'c'], 'query');
+
+		expect(httpRequest.mock.calls[0][0].body.top_n).toBe(3);
+		expect(result.map((doc) => doc.metadata.relevance_score)).toEqual([1, expect.closeTo(0.5)]);
+	});
+
+	it('rejects curve calibration without a curve for the model', async () => {
+		const { context } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-english-v3.0',
+			topN: 3,
+			options: {
+				scoreCalibration: 'curve',
+				calibrationCurves: {
+					'rerank-v3.5': [
+						[0, 0],
+						[1, 1],
+					],
+				},
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		await expect(node.supplyData.call(context, 0)).rejects.toThrow(
+			'No calibration curve for model "rerank-english-v3.0"',
+		);
+	});
+
+	it('queues requests over the shared per-endpoint concurrency limit', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://limited/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 1,
+			options: { maxConcurrentRequests: 1 },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		const events: string[] = [];
+		httpRequest.mockImplementation(async ({ body }: { body: { documents: string[] } }) => {
+			const [document] = body.documents;
+			events.push(`start ${document}`);
+			await sleep(10);
+			events.push(`end ${document}`);
+			return { results: [{ index: 0, relevance_score: 0.5 }] };
+		});
+
+		const { response: first } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const { response: second } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await Promise.all([
+			first.compressDocuments(['a'], 'query'),
+			second.compressDocuments(['b'], 'query'),
+		]);
+
+		expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+		expect(httpRequest).toHaveBeenCalledTimes(2);
+		expect(context.logger.info).toHaveBeenCalledWith(
+			expect.stringMatching(
+				/waited \d+ms in the rate limit queue for https:\/\/limited\/v1\/rerank/,
+			),
+		);
+	});
+
+	it('applies input limits before sending and maps scores back to the original documents', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: {
+				maxDocuments: 3,
+				maxDocumentCharacters: 5,
+				maxDocumentCharactersAction: 'dropDocument',
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.9 },
+				{ index: 0, relevance_score: 0.2 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(['one', 'too long', 'three', 'four'], 'query');
+
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({ documents: ['one', 'three'] }),
+			}),
+		);
+		expect(result.map((doc) => [doc.pageContent, doc.metadata.original_index])).toEqual([
+			['three', 2],
+			['one', 0],
+		]);
+		expect(context.logger.warn).toHaveBeenCalledWith(
+			'Azure Cohere Rerank input limits dropped 2 and truncated 0 of 4 documents',
+		);
+	});
+
+	it('fails fast on input limit violations even when On Error passes documents through', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: {
+				maxDocumentCharacters: 5,
+				maxDocumentCharactersAction: 'fail',
+				onError: 'passthroughAll',
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+
+		const error = await response
+			.compressDocuments(['one', 'too long'], 'query')
+			.catch((e: Error) => e);
+		expect(error).toBeInstanceOf(NodeOperationError);
+		expect((error as Error).message).toBe(
+			'Document at index 1 has 8 characters, more than the maximum of 5',
+		);
+		expect(httpRequest).not.toHaveBeenCalled();
+	});
+
+	it('renders the query and document templates before building the request body', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: {
+				queryTemplate: '={{ $json.domain }} question: {{query}}',
+				documentTemplate: 'Title: {{metadata.title}}\n{{pageContent}}',
+			},
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.evaluateExpression as jest.Mock).mockImplementation((expression: string) =>
+			expression.replace('{{ $json.domain }}', 'Billing'),
+		);
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({
+			results: [
+				{ index: 1, relevance_score: 0.9 },
+				{ index: 0, relevance_score: 0.2 },
+			],
+		});
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		const result = await response.compressDocuments(
+			[{ pageContent: 'Invoices', metadata: { title: 'Billing' } }, 'Refunds'],
+			'how do I pay',
+		);
+
+		expect(context.evaluateExpression).toHaveBeenCalledWith(
+			expect.not.stringContaining('{{query}}'),
+			0,
+		);
+		expect(httpRequest).toHaveBeenCalledWith(
+			expect.objectContaining({
+				body: expect.objectContaining({
+					query: 'Billing question: how do I pay',
+					documents: ['Title: Billing\nInvoices', 'Title: \nRefunds'],
+				}),
+			}),
+		);
+		expect(result.map((doc) => doc.pageContent)).toEqual(['Refunds', 'Invoices']);
+	});
+
+	it('reads the options once and evaluates expressions outside the templates', async () => {
+		const { context, httpRequest } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { rankFields: '={{ $json.fields }}' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+		(context.evaluateExpression as jest.Mock).mockReturnValue('title');
+		(context.getCredentials as jest.Mock).mockResolvedValue({
+			endpointUrl: 'https://endpoint/v1/rerank',
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+		});
+		httpRequest.mockResolvedValue({ results: [{ index: 0, relevance_score: 0.9 }] });
+
+		const { response } = (await node.supplyData.call(context, 0)) as unknown as {
+			response: WrappedReranker;
+		};
+		await response.compressDocuments(
+			[{ pageContent: 'Invoices', metadata: { title: 'Billing' } }],
+			'q',
+		);
+
+		const optionReads = (context.getNodeParameter as jest.Mock).mock.calls.filter(([name]) =>
+			String(name).startsWith('options'),
+		);
+		expect(optionReads).toEqual([['options', 0, {}, { rawExpressions: true }]]);
+		expect(context.evaluateExpression).toHaveBeenCalledWith('{{ $json.fields }}', 0);
+		expect(httpRequest.mock.calls[0][0].body.documents).toEqual(['title: Billing']);
+	});
+
+	it('rejects a document template combined with rank fields', async () => {
+		const { context } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { rankFields: 'title', documentTemplate: '{{pageContent}}' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+
+		await expect(node.supplyData.call(context, 0)).rejects.toThrow(
+			'Rank Fields and Document Template cannot be used together',
+		);
+	});
+
+	it('rejects a query template without the query placeholder', async () => {
+		const { context } = createContext();
+		const parameters: Record<string, unknown> = {
+			authentication: 'azureCredential',
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			topN: 2,
+			options: { queryTemplate: 'Billing question' },
+		};
+		(context.getNodeParameter as jest.Mock).mockImplementation(
+			(name: string, _itemIndex: number, fallback: unknown) => parameters[name] ?? fallback,
+		);
+
+		await expect(node.supplyData.call(context, 0)).rejects.toThrow(
+			'Query Template has no {{query}} placeholder',
+		);
+	});
 });
@@ -0,0 +1,27 @@
+import { rankWithBm25 } from '../nodes/AzureCohereRerank/bm25';
+
+describe('BM25 ranking', () => {
+	it('ranks documents by query term overlap with scores between 0 and 1', () => {
+		const results = rankWithBm25('Azure rerank pricing', [
+			'Weather report for tomorrow',
+			'Azure rerank pricing per search unit',
+			'Pricing of Azure services',
+		]);
+
+		expect(results.map((result) => result.index)).toEqual([1, 2, 0]);
+		expect(results[0].relevance_score).toBeGreaterThan(results[1].relevance_score);
+		expect(results[2].relevance_score).toBe(0);
+		for (const { relevance_score } of results) {
+			expect(relevance_score).toBeGreaterThanOrEqual(0);
+			expect(relevance_score).toBeLessThanOrEqual(1);
+		}
+	});
+
+	it('keeps the original order for ties and empty queries', () => {
+		expect(rankWithBm25('', ['a', 'b']).map((result) => result.index)).toEqual([0, 1]);
+		expect(rankWithBm25('same', ['same', 'same'])).toEqual([
+			{ index: 0, relevance_score: expect.any(Number) },
+			{ index: 1, relevance_score: expect.any(Number) },
+		]);
+	});
+});
@@ -0,0 +1,75 @@
+import {
+	MemoryCacheStore,
+	StaticDataCacheStore,
+	getCacheKey,
+	getMemoryCacheStore,
+} from '../nodes/AzureCohereRerank/cache';
+
+const entry = (score: number, expiresAt = Date.now() + 60_000) => ({
+	results: [{ index: 0, relevance_score: score }],
+	expiresAt,
+});
+
+describe('rerank cache', () => {
+	it('evicts the least recently used entry from the memory store', () => {
+		const store = new MemoryCacheStore(2);
+		store.set('a', entry(0.1));
+		store.set('b', entry(0.2));
+		store.get('a');
+		store.set('c', entry(0.3));
+
+		expect(store.get('a')).toBeDefined();
+		expect(store.get('b')).toBeUndefined();
+		expect(store.get('c')).toBeDefined();
+	});
+
+	it('keeps one memory store per max entries setting', () => {
+		const small = getMemoryCacheStore(1);
+		const large = getMemoryCacheStore(3);
+		large.set('a', entry(0.1));
+		large.set('b', entry(0.2));
+		small.set('c', entry(0.3));
+		small.set('d', entry(0.4));
+
+		expect(getMemoryCacheStore(3)).toBe(large);
+		expect(large.get('a')).toBeDefined();
+		expect(large.get('b')).toBeDefined();
+		expect(small.get('c')).toBeUndefined();
+	});
+
+	it('drops expired entries', () => {
+		const memory = new MemoryCacheStore();
+		const staticData = {};
+		const persisted = new StaticDataCacheStore(staticData);
+
+		memory.set('a', entry(0.1, Date.now() - 1));
+		persisted.set('a', entry(0.1, Date.now() - 1));
+
+		expect(memory.get('a')).toBeUndefined();
+		expect(persisted.get('a')).toBeUndefined();
+	});
+
+	it('caps the workflow static data store at max entries', () => {
+		const staticData: { rerankCache?: Record<string, unknown> } = {};
+		const store = new StaticDataCacheStore(staticData, 2);
+		store.set('a', entry(0.1));
+		store.set('b', entry(0.2));
+		store.set('c', entry(0.3));
+
+		expect(Object.keys(staticData.rerankCache ?? {})).toEqual(['b', 'c']);
+	});
+
+	it('derives keys from model, query and document contents', () => {
+		const base = {
+			endpointUrl: 'https://endpoint/v1/rerank',
+			modelName: 'rerank-v3.5',
+			query: 'q',
+			documents: ['a', 'b'],
+			settings: [3],
+		};
+
+		expect(getCacheKey(base)).toBe(getCacheKey({ ...base }));
+		expect(getCacheKey(base)).not.toBe(getCacheKey({ ...base, modelName: 'rerank-english-v3.0' }));
+		expect(getCacheKey(base)).not.toBe(getCacheKey({ ...base, documents: ['ab'] }));
+	});
+});
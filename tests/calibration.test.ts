@@ -0,0 +1,55 @@
+import { calibrateScores, parseCalibrationCurves } from '../nodes/AzureCohereRerank/calibration';
+
+describe('calibrateScores', () => {
+	it('scales scores of one call to 0–1 with min-max', () => {
+		expect(calibrateScores([0.8, 0.5, 0.2], { method: 'minMax', temperature: 1 })).toEqual([
+			1,
+			expect.closeTo(0.5),
+			0,
+		]);
+		expect(calibrateScores([0.3], { method: 'minMax', temperature: 1 })).toEqual([1]);
+	});
+
+	it('turns scores into shares with softmax, sharper at lower temperatures', () => {
+		const warm = calibrateScores([0.8, 0.5], { method: 'softmax', temperature: 1 });
+		const cold = calibrateScores([0.8, 0.5], { method: 'softmax', temperature: 0.1 });
+
+		expect(warm[0] + warm[1]).toBeCloseTo(1);
+		expect(cold[0] + cold[1]).toBeCloseTo(1);
+		expect(cold[0]).toBeGreaterThan(warm[0]);
+	});
+
+	it('interpolates along a curve and clamps outside it', () => {
+		const curve: Array<[number, number]> = [
+			[0.1, 0.2],
+			[0.5, 0.6],
+		];
+
+		expect(calibrateScores([0, 0.3, 0.9], { method: 'curve', temperature: 1, curve })).toEqual([
+			0.2,
+			expect.closeTo(0.4),
+			0.6,
+		]);
+	});
+});
+
+describe('parseCalibrationCurves', () => {
+	it('parses JSON strings and sorts points by raw score', () => {
+		expect(parseCalibrationCurves('{"rerank-v3.5": [[1, 1], [0, 0]]}')).toEqual({
+			'rerank-v3.5': [
+				[0, 0],
+				[1, 1],
+			],
+		});
+	});
+
+	it.each([
+		['[[0, 0], [1, 1]]', 'must be an object'],
+		['{"rerank-v3.5": [[0, 0]]}', 'Calibration curve for "rerank-v3.5"'],
+		['{"rerank-v3.5": [[0, "low"], [1, 1]]}', 'Calibration curve for "rerank-v3.5"'],
+		['{not json', 'not valid JSON'],
+		['{"rerank-v3.5": [[0, 0.5], [1, 0.2]]}', 'must not decrease'],
+	])('rejects %s', (value, message) => {
+		expect(() => parseCalibrationCurves(value)).toThrow(message);
+	});
+});
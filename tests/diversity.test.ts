@@ -0,0 +1,46 @@
+import {
+	getShingles,
+	jaccard,
+	removeNearDuplicates,
+	selectByMmr,
+} from '../nodes/AzureCohereRerank/diversity';
+
+describe('diversity', () => {
+	it('measures shingle overlap with Jaccard similarity', () => {
+		const text = 'the quick brown fox jumps over the lazy dog';
+
+		expect(jaccard(getShingles(text), getShingles(text.toUpperCase()))).toBe(1);
+		expect(jaccard(getShingles(text), getShingles('an entirely different sentence here'))).toBe(0);
+		expect(jaccard(getShingles(text), getShingles(`${text} again`))).toBeCloseTo(7 / 8);
+	});
+
+	it('keeps the first copy of near-duplicates', () => {
+		const texts = [
+			'the quick brown fox jumps over the lazy dog',
+			'something else entirely about rerankers',
+			'the quick brown fox jumps over the lazy dog again',
+		];
+
+		const shingles = texts.map(getShingles);
+
+		expect(removeNearDuplicates([0, 1, 2], (index) => shingles[index], 0.8)).toEqual([0, 1]);
+		expect(removeNearDuplicates([0, 1, 2], (index) => shingles[index], 0.9)).toEqual([0, 1, 2]);
+	});
+
+	it('prefers a distinct document over a similar one with a slightly higher score', () => {
+		const items = [
+			{ text: 'azure rerank pricing per search unit', score: 0.9 },
+			{ text: 'azure rerank pricing per search unit explained', score: 0.85 },
+			{ text: 'regional availability of cohere models', score: 0.6 },
+		];
+
+		const picked = selectByMmr(
+			items,
+			(item) => item.score,
+			(item) => getShingles(item.text),
+			0.5,
+			2,
+		);
+		expect(picked.map((item) => item.score)).toEqual([0.9, 0.6]);
+	});
+});
@@ -0,0 +1,62 @@
+import {
+	DEFAULT_AZURE_API_VERSION,
+	normalizeEndpointUrl,
+} from '../nodes/AzureCohereRerank/endpointUrl';
+
+describe('normalizeEndpointUrl', () => {
+	it.each([
+		[
+			'https://rerank.eastus.models.ai.azure.com',
+			'https://rerank.eastus.models.ai.azure.com/v1/rerank',
+		],
+		[
+			'https://rerank.eastus.models.ai.azure.com/v1/',
+			'https://rerank.eastus.models.ai.azure.com/v1/rerank',
+		],
+		['rerank.eastus.models.ai.azure.com', 'https://rerank.eastus.models.ai.azure.com/v1/rerank'],
+		[
+			'https://rerank.eastus.inference.ml.azure.com/',
+			'https://rerank.eastus.inference.ml.azure.com/v1/rerank',
+		],
+		[
+			'https://hub.services.ai.azure.com',
+			`https://hub.services.ai.azure.com/models/rerank?api-version=${DEFAULT_AZURE_API_VERSION}`,
+		],
+		[
+			'https://hub.services.ai.azure.com/models/rerank?api-version=2024-10-01',
+			'https://hub.services.ai.azure.com/models/rerank?api-version=2024-10-01',
+		],
+		[
+			'https://hub.cognitiveservices.azure.com/openai/deployments/cohere-rerank/',
+			`https://hub.cognitiveservices.azure.com/openai/deployments/cohere-rerank/rerank?api-version=${DEFAULT_AZURE_API_VERSION}`,
+		],
+	])('completes %s', (input, expected) => {
+		expect(normalizeEndpointUrl(input)).toBe(expected);
+	});
+
+	it('uses the provider route for bare serverless hosts', () => {
+		expect(normalizeEndpointUrl('https://rerank.eastus.models.ai.azure.com', '/v2/rerank')).toBe(
+			'https://rerank.eastus.models.ai.azure.com/v2/rerank',
+		);
+	});
+
+	it.each([
+		'https://rerank.eastus.models.ai.azure.com/v1/rerank',
+		'https://rerank.eastus.inference.ml.azure.com/score',
+		'https://api.jina.ai/v1/rerank',
+		'http://localhost:8080/rerank',
+	])('leaves %s unchanged', (input) => {
+		expect(normalizeEndpointUrl(input)).toBe(input);
+	});
+
+	it.each([
+		['not a url', 'is not a valid URL'],
+		['ftp://rerank.example.com/v1/rerank', 'must use https'],
+		['https://ai.azure.com/build/deployments', 'Target URI'],
+		['https://hub.openai.azure.com/openai/deployments/gpt/chat/completions', 'chat completions'],
+		['https://rerank.eastus.models.ai.azure.com/v1/embeddings', 'embeddings'],
+		['https://hub.openai.azure.com', 'missing the deployment'],
+	])('rejects %s', (input, message) => {
+		expect(() => normalizeEndpointUrl(input)).toThrow(message);
+	});
+});
@@ -0,0 +1,29 @@
+import { CircuitBreaker } from '../nodes/AzureCohereRerank/failover';
+
+const policy = { failureThreshold: 2, cooldownMs: 1000 };
+
+describe('circuit breaker', () => {
+	it('opens after consecutive failures and closes again after the cool-down', () => {
+		const breaker = new CircuitBreaker();
+
+		expect(breaker.recordFailure('https://a', policy, 0)).toBe(false);
+		expect(breaker.isOpen('https://a', 0)).toBe(false);
+		expect(breaker.recordFailure('https://a', policy, 0)).toBe(true);
+		expect(breaker.isOpen('https://a', 500)).toBe(true);
+		expect(breaker.isOpen('https://b', 500)).toBe(false);
+		expect(breaker.isOpen('https://a', 1000)).toBe(false);
+	});
+
+	it('reopens on the first failure after the cool-down and resets on success', () => {
+		const breaker = new CircuitBreaker();
+		breaker.recordFailure('https://a', policy, 0);
+		breaker.recordFailure('https://a', policy, 0);
+
+		expect(breaker.recordFailure('https://a', policy, 2000)).toBe(true);
+		expect(breaker.isOpen('https://a', 2500)).toBe(true);
+
+		breaker.recordSuccess('https://a');
+		expect(breaker.isOpen('https://a', 2500)).toBe(false);
+		expect(breaker.recordFailure('https://a', policy, 2500)).toBe(false);
+	});
+});
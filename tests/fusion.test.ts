@@ -0,0 +1,33 @@
+import { fuseScores } from '../nodes/AzureCohereRerank/fusion';
+
+const candidates = [
+	{ relevance_score: 0.9, firstStageScore: 0.2 },
+	{ relevance_score: 0.5, firstStageScore: 0.8 },
+	{ relevance_score: 0.1 },
+];
+
+describe('score fusion', () => {
+	it('blends raw scores with weighted linear fusion', () => {
+		const fused = fuseScores(candidates, { method: 'weightedLinear', rerankWeight: 0.5, rrfK: 60 });
+
+		expect(fused[0]).toBeCloseTo(0.55);
+		expect(fused[1]).toBeCloseTo(0.65);
+		expect(fused[2]).toBeCloseTo(0.05);
+	});
+
+	it('sums reciprocal ranks from both rankings', () => {
+		const fused = fuseScores(candidates, { method: 'rrf', rerankWeight: 0.5, rrfK: 60 });
+
+		expect(fused[0]).toBeCloseTo(1 / 61 + 1 / 62);
+		expect(fused[1]).toBeCloseTo(1 / 62 + 1 / 61);
+		expect(fused[2]).toBeCloseTo(1 / 63);
+	});
+
+	it('scales both scores to 0–1 before blending with min-max fusion', () => {
+		const fused = fuseScores(candidates, { method: 'minMax', rerankWeight: 0.5, rrfK: 60 });
+
+		expect(fused[0]).toBeCloseTo(0.5);
+		expect(fused[1]).toBeCloseTo(0.75);
+		expect(fused[2]).toBeCloseTo(0);
+	});
+});
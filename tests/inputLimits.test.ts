@@ -0,0 +1,81 @@
+import { applyInputLimits, TRUNCATION_MARKER } from '../nodes/AzureCohereRerank/inputLimits';
+
+describe('applyInputLimits', () => {
+	const texts = ['alpha', 'a much longer document', 'gamma', 'delta'];
+
+	it('keeps the first documents up to the count limit', () => {
+		const result = applyInputLimits(texts, { maxDocuments: { limit: 2, action: 'dropTail' } });
+
+		expect(result.documents).toEqual([
+			{ index: 0, text: 'alpha' },
+			{ index: 1, text: 'a much longer document' },
+		]);
+		expect(result.dropped).toBe(2);
+	});
+
+	it('truncates long documents with a marker or leaves them out', () => {
+		const truncated = applyInputLimits(texts, {
+			maxCharacters: { limit: TRUNCATION_MARKER.length + 6, action: 'truncate' },
+		});
+		expect(truncated.documents[1]).toEqual({ index: 1, text: `a much${TRUNCATION_MARKER}` });
+		expect(truncated.truncated).toBe(1);
+
+		const dropped = applyInputLimits(texts, {
+			maxCharacters: { limit: 10, action: 'dropDocument' },
+		});
+		expect(dropped.documents.map((document) => document.index)).toEqual([0, 2, 3]);
+	});
+
+	it('fits documents into the payload budget of each batch', () => {
+		// Each short document takes its 7 quoted bytes plus a comma.
+		const limits = { baseBytes: 10, batchSize: 2, limit: 26 };
+
+		const dropTail = applyInputLimits(['alpha', 'gamma', 'delta', 'omega', 'a long document'], {
+			maxPayload: { ...limits, action: 'dropTail' },
+		});
+		expect(dropTail.documents.map((document) => document.text)).toEqual([
+			'alpha',
+			'gamma',
+			'delta',
+			'omega',
+		]);
+
+		const truncate = applyInputLimits(['alpha', 'x'.repeat(100)], {
+			maxPayload: { ...limits, limit: 60, action: 'truncate' },
+		});
+		const text = truncate.documents[1].text;
+		expect(text.endsWith(TRUNCATION_MARKER)).toBe(true);
+		// 60 bytes minus the base and the first document.
+		expect(Buffer.byteLength(JSON.stringify(text)) + 1).toBeLessThanOrEqual(42);
+		expect(truncate.truncated).toBe(1);
+	});
+
+	it('measures chunked documents by the chunks that are sent', () => {
+		// Whole, each document takes 8 bytes; split in two, it takes 2 × 5 bytes.
+		const limits = { baseBytes: 10, batchSize: 10, limit: 26, action: 'dropTail' as const };
+		const split = (text: string) => text.split(' ');
+
+		const whole = applyInputLimits(['ab cd', 'ef gh'], { maxPayload: limits });
+		expect(whole.documents).toHaveLength(2);
+
+		const chunked = applyInputLimits(['ab cd', 'ef gh'], { maxPayload: { ...limits, split } });
+		expect(chunked.documents.map((document) => document.text)).toEqual(['ab cd']);
+	});
+
+	it.each([
+		[
+			{ maxDocuments: { limit: 3, action: 'fail' as const } },
+			'first document over the limit is at index 3',
+		],
+		[
+			{ maxCharacters: { limit: 10, action: 'fail' as const } },
+			'Document at index 1 has 22 characters',
+		],
+		[
+			{ maxPayload: { limit: 30, action: 'fail' as const, baseBytes: 10, batchSize: 10 } },
+			'Document at index 1 pushes the request payload past the maximum of 30 bytes',
+		],
+	])('fails fast naming the offending document %#', (limits, message) => {
+		expect(() => applyInputLimits(texts, limits)).toThrow(message);
+	});
+});
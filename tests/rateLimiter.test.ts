@@ -0,0 +1,72 @@
+import { RateLimiter } from '../nodes/AzureCohereRerank/rateLimiter';
+
+describe('rate limiter', () => {
+	beforeEach(() => {
+		jest.useFakeTimers();
+	});
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it('queues requests beyond the per-minute quota until a token refills', async () => {
+		const limiter = new RateLimiter();
+		const policy = { requestsPerMinute: 2, maxConcurrent: 0 };
+
+		const first = await limiter.acquire('https://a', policy);
+		const second = await limiter.acquire('https://a', policy);
+		let third: { queued: boolean; waitMs: number } | undefined;
+		const pending = limiter.acquire('https://a', policy).then((slot) => (third = slot));
+		// Other endpoints have their own bucket.
+		await limiter.acquire('https://b', policy);
+
+		await jest.advanceTimersByTimeAsync(29_000);
+		expect(third).toBeUndefined();
+		await jest.advanceTimersByTimeAsync(1_000);
+		await pending;
+
+		expect(first).toEqual(expect.objectContaining({ queued: false, waitMs: 0 }));
+		expect(second.queued).toBe(false);
+		expect(third).toEqual(expect.objectContaining({ queued: true, waitMs: 30_000 }));
+	});
+
+	it('caps concurrent requests and grants freed slots in arrival order', async () => {
+		const limiter = new RateLimiter();
+		const policy = { requestsPerMinute: 0, maxConcurrent: 1 };
+		const order: string[] = [];
+
+		const first = await limiter.acquire('https://a', policy);
+		const second = limiter.acquire('https://a', policy).then((slot) => {
+			order.push('second');
+			return slot;
+		});
+		const third = limiter.acquire('https://a', policy).then((slot) => {
+			order.push('third');
+			return slot;
+		});
+
+		await jest.advanceTimersByTimeAsync(0);
+		expect(order).toEqual([]);
+
+		first.release();
+		(await second).release();
+		await third;
+		expect(order).toEqual(['second', 'third']);
+	});
+
+	it('drops aborted callers from the queue without losing their slot', async () => {
+		const limiter = new RateLimiter();
+		const policy = { requestsPerMinute: 0, maxConcurrent: 1 };
+		const controller = new AbortController();
+
+		const first = await limiter.acquire('https://a', policy);
+		const aborted = limiter.acquire('https://a', policy, controller.signal);
+		const next = limiter.acquire('https://a', policy);
+
+		controller.abort(new Error('cancelled'));
+		await expect(aborted).rejects.toThrow('cancelled');
+
+		first.release();
+		await expect(next).resolves.toEqual(expect.objectContaining({ queued: true }));
+	});
+});
@@ -0,0 +1,36 @@
+import {
+	escapePlaceholders,
+	getPlaceholders,
+	renderTemplate,
+	restorePlaceholders,
+} from '../nodes/AzureCohereRerank/templates';
+
+describe('templates', () => {
+	it('fills placeholders and leaves unknown ones empty', () => {
+		const values: Record<string, string> = { pageContent: 'Body', 'metadata.title': 'Intro' };
+
+		expect(
+			renderTemplate(
+				'Title: {{ metadata.title }}\n{{pageContent}} {{metadata.author}}',
+				(path) => values[path],
+			),
+		).toBe('Title: Intro\nBody ');
+	});
+
+	it('lists placeholders but not n8n expressions', () => {
+		expect(getPlaceholders('{{ $json.domain }}: {{query}} {{ metadata.title }}')).toEqual([
+			'query',
+			'metadata.title',
+		]);
+	});
+
+	it('hides placeholders from expression evaluation and restores them afterwards', () => {
+		const escaped = escapePlaceholders('{{ $json.domain }}: {{ query }}');
+
+		expect(escaped).not.toContain('{{ query }}');
+		expect(escaped).toContain('{{ $json.domain }}');
+		expect(restorePlaceholders(escaped.replace('{{ $json.domain }}', 'Billing'))).toBe(
+			'Billing: {{query}}',
+		);
+	});
+});